@@ -0,0 +1,291 @@
+/**
+ * Archive Commands
+ *
+ * Offline commands that work on the manifests and the archive on disk
+ * (no browser, no login): status, rebuild-indexes, export, verify and migrate-store
+ */
+
+import chalk from 'chalk';
+import { readFile, writeFile } from 'fs/promises';
+import { filterGroups } from './config.js';
+import {
+  loadManifest,
+  saveManifest,
+  updatePost,
+  getManifestStats,
+  listManifestGroups,
+  lockManifest,
+  getManifestStore,
+  listJsonManifestGroups,
+  migrateJsonManifests
+} from './manifest.js';
+import { getReportFilePath } from './state-dir.js';
+import { createPostDirectories } from './file-organizer.js';
+import { ExporterFactory } from './exporters/index.js';
+import { rebuildGroupIndexes, rebuildTopLevelIndexes } from './index-builder.js';
+import { verifyGroups, repairFromReport } from './archive-verifier.js';
+import { createLogger } from './logger.js';
+import { Config, Exporter, OutputFormat, VerificationReport } from './types.js';
+
+const log = createLogger('archive');
+
+/**
+ * Resolve the groups that have a manifest, optionally narrowed by name pattern (--group)
+ * @param {string} groupName - Optional group name pattern
+ * @returns {Promise<string[]>} Group names
+ */
+async function resolveManifestGroups(groupName?: string): Promise<string[]> {
+  const groupNames = await listManifestGroups();
+  if (!groupName) {
+    return groupNames;
+  }
+
+  return filterGroups(groupNames.map(name => ({ name, url: '' })), { include: [groupName] })
+    .map(group => group.name);
+}
+
+/**
+ * Print per-group manifest statistics
+ * @param {Object} options - { groupName?: string }
+ */
+export async function showStatus(options: { groupName?: string } = {}) {
+  const groupNames = await resolveManifestGroups(options.groupName);
+
+  if (groupNames.length === 0) {
+    log.warn(chalk.yellow('\n⚠ No manifests found. Run a backup first.\n'));
+    return;
+  }
+
+  log.info(chalk.blue.bold('\n📊 Backup Status\n'));
+
+  for (const groupName of groupNames) {
+    const manifest = await loadManifest(groupName);
+    const stats = getManifestStats(manifest);
+    const avatars = Object.values(manifest.avatars || {}) as any[];
+    const failedAvatars = avatars.filter(avatar => avatar.status === 'failed').length;
+
+    log.info(chalk.blue(`📂 ${groupName}`));
+    log.info(chalk.gray(`   Last run: ${manifest.metadata.last_run || 'never'}`));
+    log.info(chalk.gray(`   Posts: ${stats.total} (${stats.complete} complete, ${stats.partial} partial, ${stats.failed} failed)`));
+    log.info(chalk.gray(`   Avatars: ${avatars.length}${failedAvatars > 0 ? ` (${failedAvatars} failed)` : ''}`));
+    if (stats.partial + stats.failed > 0) {
+      log.warn(chalk.yellow(`   ⚠ ${stats.partial + stats.failed} posts need a retry (retry-failed)`));
+    }
+    log.info('');
+  }
+}
+
+/**
+ * Rebuild every index file from the manifests
+ * @param {Config} config - Configuration object
+ * @param {Object} options - { groupName?: string }
+ */
+export async function rebuildIndexes(config: Config, options: { groupName?: string } = {}) {
+  const groupNames = await resolveManifestGroups(options.groupName);
+  let written = 0;
+
+  for (const groupName of groupNames) {
+    const manifest = await loadManifest(groupName);
+    written += await rebuildGroupIndexes(config, groupName, manifest);
+  }
+  written += await rebuildTopLevelIndexes(config);
+
+  if (written === 0) {
+    log.warn(chalk.yellow('\n⚠ No index files written (check filesystem.generateMonthlyIndex / generateTopLevelIndex)\n'));
+    return;
+  }
+  log.info(chalk.green(`\n✓ Rebuilt ${written} index files\n`));
+}
+
+/**
+ * Re-render archived posts in the given formats from their saved JSON snapshots
+ * @param {Config} config - Configuration object
+ * @param {Object} options - { formats: OutputFormat[], groupName?: string, repair?: boolean mark posts without a snapshot partial }
+ */
+export async function exportArchive(config: Config, options: { formats: OutputFormat[]; groupName?: string; repair?: boolean }) {
+  const groupNames = await resolveManifestGroups(options.groupName);
+  const exporters = options.formats.map(format => ExporterFactory.getExporterForFormat(format));
+
+  log.info(chalk.blue.bold(`\n📤 Exporting archive as: ${options.formats.join(', ')}\n`));
+
+  for (const groupName of groupNames) {
+    const releaseLock = await lockManifest(groupName);
+    try {
+      await exportGroup(config, groupName, exporters, options.repair);
+    } finally {
+      await releaseLock();
+    }
+  }
+  log.info('');
+}
+
+/**
+ * Re-render one group's posts from their snapshots and record the new files in its manifest
+ * With repair, posts without a snapshot are marked partial so retry-failed extracts them again
+ */
+async function exportGroup(config: Config, groupName: string, exporters: Exporter[], repair = false) {
+  const manifest = await loadManifest(groupName);
+  let exported = 0;
+  const missingSnapshots = [];
+
+  for (const [postId, tracked] of Object.entries(manifest.posts) as [string, any][]) {
+    if (tracked.status === 'failed') continue;
+
+    if (!tracked.data_path) {
+      missingSnapshots.push(postId);
+      continue;
+    }
+
+    let snapshot;
+    try {
+      snapshot = JSON.parse(await readFile(tracked.data_path, 'utf-8'));
+    } catch (error) {
+      missingSnapshots.push(postId);
+      continue;
+    }
+
+    const postDirectories = await createPostDirectories(config.outputDir, snapshot.post);
+    const outputPaths = new Set<string>(tracked.output_paths || (tracked.markdown_path ? [tracked.markdown_path] : []));
+
+    for (const exporter of exporters) {
+      outputPaths.add(await exporter.export(snapshot.post, snapshot.media, postDirectories.root, config));
+    }
+
+    const paths = Array.from(outputPaths);
+    updatePost(manifest, postId, {
+      ...tracked,
+      markdown_path: tracked.markdown_path || paths[0],
+      output_paths: paths
+    });
+    exported++;
+  }
+
+  if (repair) {
+    for (const postId of missingSnapshots) {
+      manifest.posts[postId].status = 'partial';
+    }
+  }
+  await saveManifest(groupName, manifest);
+
+  log.info(chalk.green(`✓ ${groupName}: exported ${exported} posts`));
+  if (missingSnapshots.length > 0 && repair) {
+    log.warn(chalk.yellow(`   🔧 Marked ${missingSnapshots.length} posts without saved data as partial; run retry-failed to extract them again, then export again`));
+  } else if (missingSnapshots.length > 0) {
+    log.warn(chalk.yellow(`   ⚠ ${missingSnapshots.length} posts have no saved data (backed up before snapshots existed); run export again with --repair to queue them for retry-failed`));
+  }
+}
+
+/**
+ * Verify the archive against the manifests and write a JSON report
+ * @param {Config} config - Configuration object
+ * @param {Object} options - { groupName?: string, repair?: boolean mark affected posts partial, reportPath?: string }
+ * @returns {Promise<VerificationReport>}
+ */
+export async function verifyArchive(
+  config: Config,
+  options: { groupName?: string; repair?: boolean; reportPath?: string } = {}
+): Promise<VerificationReport> {
+  const groupNames = await resolveManifestGroups(options.groupName);
+  const releaseLocks = [];
+  try {
+    // Repair writes the manifests: make sure no backup run is using them
+    if (options.repair) {
+      for (const groupName of groupNames) {
+        releaseLocks.push(await lockManifest(groupName));
+      }
+    }
+    return await verifyLockedGroups(config, groupNames, options);
+  } finally {
+    for (const releaseLock of releaseLocks) {
+      await releaseLock();
+    }
+  }
+}
+
+async function verifyLockedGroups(
+  config: Config,
+  groupNames: string[],
+  options: { repair?: boolean; reportPath?: string }
+): Promise<VerificationReport> {
+  const manifests = new Map<string, any>();
+  for (const groupName of groupNames) {
+    manifests.set(groupName, await loadManifest(groupName));
+  }
+
+  log.info(chalk.blue.bold('\n🔍 Verifying archive\n'));
+
+  const groups = Array.from(manifests, ([groupName, manifest]) => ({ groupName, manifest }));
+  const report = await verifyGroups(config, groups);
+
+  log.info(chalk.gray(`   Checked ${report.postsChecked} posts, ${report.assetsChecked} assets, ${report.filesScanned} files in media folders`));
+
+  // Show the first issues of each type, the report has all of them
+  for (const [type, count] of Object.entries(report.issueCounts)) {
+    log.error(chalk.red(`\n   ✗ ${type}: ${count}`));
+    for (const issue of report.issues.filter(i => i.type === type).slice(0, 5)) {
+      const detail = issue.link ? ` → ${issue.link}` : issue.expected !== undefined ? ` (expected ${issue.expected}, found ${issue.actual})` : '';
+      log.info(chalk.gray(`     ${issue.group}: ${issue.path}${detail}`));
+    }
+    if (count > 5) {
+      log.info(chalk.gray(`     ... and ${count - 5} more`));
+    }
+  }
+
+  if (options.repair && report.issues.length > 0) {
+    const repaired = repairFromReport(report, manifests);
+    for (const [groupName, manifest] of manifests) {
+      await saveManifest(groupName, manifest);
+    }
+    log.warn(chalk.yellow(`\n   🔧 Marked ${repaired.length} posts as partial; run retry-failed to fetch them again`));
+  }
+
+  const reportPath = options.reportPath || await getReportFilePath(config.outputDir, `verify-report-${Date.now()}.json`);
+  await writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+  if (report.issues.length > 0) {
+    log.error(chalk.red(`\n❌ Found ${report.issues.length} problems - report: ${reportPath}\n`));
+  } else {
+    log.info(chalk.green(`\n✅ Archive is consistent - report: ${reportPath}\n`));
+  }
+
+  return report;
+}
+
+/**
+ * Copy the JSON manifests into the configured SQLite store (one-shot, JSON files are kept)
+ * @param {Config} config - Configuration object (manifestStore.type must be "sqlite")
+ */
+export async function migrateManifestStore(config: Config) {
+  if (config.manifestStore?.type !== 'sqlite') {
+    throw new Error('migrate-store copies the JSON manifests into SQLite: set "manifestStore": { "type": "sqlite" } in config.json first');
+  }
+
+  const groupNames = await listJsonManifestGroups();
+  if (groupNames.length === 0) {
+    log.warn(chalk.yellow('\n⚠ No manifest-*.json files found in the archive\n'));
+    return;
+  }
+
+  // No run may start on the database while the groups are copied
+  const releaseLocks = [];
+  try {
+    for (const groupName of groupNames) {
+      releaseLocks.push(await lockManifest(groupName));
+    }
+
+    log.info(chalk.blue.bold(`\n🗄️  Migrating ${groupNames.length} JSON manifests to the SQLite store\n`));
+    const { migrated, skipped } = await migrateJsonManifests(groupNames);
+
+    for (const groupName of migrated) {
+      log.info(chalk.green(`✓ ${groupName} → ${getManifestStore().describe(groupName)}`));
+    }
+    for (const groupName of skipped) {
+      log.info(chalk.gray(`- ${groupName}: already in the database, skipped`));
+    }
+    log.info(chalk.green(`\n✅ Migrated ${migrated.length} manifests; the JSON files were left in place and can be deleted once you have checked the result\n`));
+  } finally {
+    for (const releaseLock of releaseLocks) {
+      await releaseLock();
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Archive Verification
+ *
+ * Compares the manifests with the archive on disk: rendered posts and assets exist
+ * with the recorded size and hash, media folders hold no unreferenced files and
+ * relative links in rendered posts resolve
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, dirname, resolve, extname } from 'path';
+import { hashFile } from './utils.js';
+import {
+  Config,
+  ManifestAsset,
+  VerificationIssue,
+  VerificationIssueType,
+  VerificationReport
+} from './types.js';
+
+const MEDIA_FOLDERS = ['Images', 'Videos', 'External_Files'];
+
+/**
+ * Verify the posts and media folders of the given groups
+ * @param {Config} config - Configuration object
+ * @param {Array<{groupName: string, manifest: Object}>} groups - Groups to verify with their manifests
+ * @returns {Promise<VerificationReport>}
+ */
+export async function verifyGroups(config: Config, groups: Array<{ groupName: string; manifest: any }>): Promise<VerificationReport> {
+  const report: VerificationReport = {
+    generatedAt: new Date().toISOString(),
+    outputDir: config.outputDir,
+    groups: groups.map(group => group.groupName),
+    postsChecked: 0,
+    assetsChecked: 0,
+    filesScanned: 0,
+    issues: [],
+    issueCounts: {}
+  };
+
+  for (const { groupName, manifest } of groups) {
+    // Absolute paths of every file a post of this group uses (assets and link targets)
+    const referenced = new Set<string>();
+
+    for (const [postId, post] of Object.entries(manifest.posts) as [string, any][]) {
+      if (post.status === 'failed') continue;
+      report.postsChecked++;
+
+      // Rendered files and their relative links
+      const outputPaths: string[] = post.output_paths || (post.markdown_path ? [post.markdown_path] : []);
+      for (const outputPath of outputPaths) {
+        const content = await readFile(outputPath, 'utf-8').catch(() => null);
+        if (content === null) {
+          addIssue(report, { type: 'missing_output', group: groupName, postId, path: outputPath });
+          continue;
+        }
+
+        for (const link of extractRelativeLinks(content, outputPath)) {
+          const target = resolveLink(outputPath, link);
+          referenced.add(target);
+          if (!(await fileExists(target))) {
+            addIssue(report, { type: 'broken_link', group: groupName, postId, path: outputPath, link });
+          }
+        }
+      }
+
+      // Downloaded assets
+      for (const asset of (post.assets || []) as ManifestAsset[]) {
+        if (asset.status !== 'complete' || !asset.path) continue;
+        report.assetsChecked++;
+        referenced.add(resolve(asset.path));
+
+        const issue = await checkAsset(asset);
+        if (issue) {
+          addIssue(report, { ...issue, group: groupName, postId, path: asset.path });
+        }
+      }
+    }
+
+    // Orphan files in the group's media folders
+    for (const filePath of await listGroupMediaFiles(config.outputDir, groupName)) {
+      report.filesScanned++;
+      if (!referenced.has(filePath)) {
+        addIssue(report, { type: 'orphan_file', group: groupName, path: filePath });
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Mark posts with missing or corrupted files as partial so retry-failed fetches them again
+ * Orphan files are only reported, never deleted
+ * @param {VerificationReport} report - Report from verifyGroups
+ * @param {Map<string, Object>} manifests - groupName -> manifest (modified in place)
+ * @returns {string[]} "<group>/<postId>" of repaired posts
+ */
+export function repairFromReport(report: VerificationReport, manifests: Map<string, any>): string[] {
+  const repaired = new Set<string>();
+
+  for (const issue of report.issues) {
+    if (!issue.postId) continue;
+
+    const post = manifests.get(issue.group)?.posts[issue.postId];
+    if (!post) continue;
+
+    // Corrupted or missing assets must be downloaded again, even if a file exists
+    if (issue.type === 'missing_asset' || issue.type === 'size_mismatch' || issue.type === 'hash_mismatch') {
+      for (const asset of post.assets || []) {
+        if (asset.path === issue.path) {
+          asset.status = 'failed';
+          asset.error = `verify: ${issue.type}`;
+        }
+      }
+    }
+
+    post.status = 'partial';
+    post.error = `verify: ${issue.type}`;
+    repaired.add(`${issue.group}/${issue.postId}`);
+  }
+
+  report.repairedPosts = Array.from(repaired);
+  return report.repairedPosts;
+}
+
+/**
+ * Check that a downloaded asset exists with the recorded size and content hash
+ */
+async function checkAsset(asset: ManifestAsset): Promise<{ type: VerificationIssueType; expected?: string | number; actual?: string | number } | null> {
+  let size: number;
+  try {
+    size = (await stat(asset.path)).size;
+  } catch {
+    return { type: 'missing_asset' };
+  }
+
+  if (asset.size !== undefined && asset.size !== size) {
+    return { type: 'size_mismatch', expected: asset.size, actual: size };
+  }
+
+  if (asset.content_hash) {
+    const hash = await hashFile(asset.path);
+    if (hash !== asset.content_hash) {
+      return { type: 'hash_mismatch', expected: asset.content_hash, actual: hash };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract relative link targets from a rendered post (markdown links/images, html src/href)
+ * @param {string} content - File content
+ * @param {string} filePath - File path (the extension selects the syntax)
+ * @returns {string[]} Link targets as written in the file
+ */
+function extractRelativeLinks(content: string, filePath: string): string[] {
+  const pattern = extname(filePath) === '.html'
+    ? /(?:src|href)="([^"]+)"/g
+    : /\]\(([^)\s]+(?: [^)\s]+)*)\)/g;
+
+  const links = [];
+  for (const match of content.matchAll(pattern)) {
+    const target = match[1];
+    // Only local files: skip URLs (http:, mailto:, data:, ...), anchors and absolute paths
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('/')) continue;
+    links.push(target);
+  }
+
+  return links;
+}
+
+/**
+ * Resolve a relative link from a rendered post to an absolute file path
+ */
+function resolveLink(fromFile: string, link: string): string {
+  const withoutAnchor = link.split('#')[0];
+  let decoded = withoutAnchor;
+  try {
+    decoded = decodeURIComponent(withoutAnchor);
+  } catch {
+    // Not URI-encoded, use as written
+  }
+  return resolve(dirname(fromFile), decoded);
+}
+
+/**
+ * List every file in the Images, Videos and External_Files folders of a group (all years and months)
+ * @param {string} outputDir - Base output directory
+ * @param {string} groupName - Group name
+ * @returns {Promise<string[]>} Absolute file paths
+ */
+async function listGroupMediaFiles(outputDir: string, groupName: string): Promise<string[]> {
+  const files = [];
+  const years = (await readdir(outputDir, { withFileTypes: true }).catch(() => []))
+    .filter(entry => entry.isDirectory() && /^\d{4}$/.test(entry.name));
+
+  for (const year of years) {
+    const groupDir = join(outputDir, year.name, 'Mis Grupos', groupName);
+    const months = (await readdir(groupDir, { withFileTypes: true }).catch(() => []))
+      .filter(entry => entry.isDirectory());
+
+    for (const month of months) {
+      for (const folder of MEDIA_FOLDERS) {
+        files.push(...await listFilesRecursive(join(groupDir, month.name, folder)));
+      }
+    }
+  }
+
+  return files.map(file => resolve(file));
+}
+
+async function listFilesRecursive(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = [];
+
+  for (const entry of entries) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFilesRecursive(entryPath));
+    } else if (entry.isFile() && !entry.name.startsWith('.')) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+function addIssue(report: VerificationReport, issue: VerificationIssue) {
+  report.issues.push(issue);
+  report.issueCounts[issue.type] = (report.issueCounts[issue.type] || 0) + 1;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
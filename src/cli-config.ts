@@ -0,0 +1,69 @@
+/**
+ * Command Configuration
+ *
+ * Loads config.json and applies everything it sets up before a command runs,
+ * shared by the CLI and the direct-run entry points (index.ts, test-single-post.ts)
+ */
+
+import chalk from 'chalk';
+import { loadConfig } from './config.js';
+import { getPassword } from './credentials.js';
+import { configureManifestStore } from './manifest.js';
+import { migrateLegacyState, getRecordingsDir } from './state-dir.js';
+import { createLogger, configureLogging, resolveLogging, getConsoleLevel } from './logger.js';
+import { startProgressDashboard } from './progress-dashboard.js';
+import { configureRecorder } from './recorder.js';
+import { configureSelectorProfile, loadSelectorProfile } from './selectors.js';
+import { Config, LoggingConfig } from './types.js';
+
+const log = createLogger('cli');
+
+export interface CliConfigOptions {
+  headed?: boolean;
+  plain?: boolean;
+  record?: boolean;
+  logging?: LoggingConfig;  // Logging switches from the command line (win over config.json)
+}
+
+/**
+ * Load config, apply its logging settings, move state left in the working directory by older versions and select the manifest store
+ * @param {string} configPath - Config file (default: ./config.json)
+ * @param {LoggingConfig} cliLogging - Logging switches from the command line
+ * @returns {Promise<Config>}
+ */
+export async function loadStoreConfig(configPath?: string, cliLogging: LoggingConfig = {}): Promise<Config> {
+  const config = await loadConfig(configPath);
+  configureLogging(resolveLogging(config.logging, cliLogging));
+  await migrateLegacyState(config);
+  configureManifestStore(config);
+  return config;
+}
+
+/**
+ * Load config for commands that open the browser, load the selector profile, unlock the password
+ * (a password command or passphrase prompt needs the terminal to itself), turn on record mode
+ * (--record), and show the progress view in a terminal (not with --plain, or when only warnings
+ * and errors are shown)
+ * @param {string} configPath - Config file (default: ./config.json)
+ * @param {CliConfigOptions} options - { headed?, plain?, record?, logging? }
+ * @returns {Promise<Config>}
+ */
+export async function loadCliConfig(configPath: string | undefined, options: CliConfigOptions = {}): Promise<Config> {
+  const config = await loadStoreConfig(configPath, options.logging);
+  if (options.headed) {
+    config.scraping.headless = false;
+  }
+  if (config.selectorProfile) {
+    configureSelectorProfile(await loadSelectorProfile(config.selectorProfile));
+  }
+  if (options.record) {
+    const recordingsDir = getRecordingsDir(config.outputDir);
+    configureRecorder(recordingsDir);
+    log.info(chalk.gray(`🎥 Recording visited pages to ${recordingsDir}`));
+  }
+  await getPassword(config);
+  if (!options.plain && ['debug', 'info'].includes(getConsoleLevel())) {
+    startProgressDashboard();
+  }
+  return config;
+}
@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+/**
+ * Handing Backup - Command Line Interface
+ *
+ * Usage: handing-backup [command] [options]
+ * Run with --help for the list of commands
+ */
+
+import chalk from 'chalk';
+import { parseArgs } from 'util';
+import { loadConfig } from './config.js';
+import { saveCredentials } from './credentials.js';
+import { loadStoreConfig, loadCliConfig } from './cli-config.js';
+import { runBackup, runSinglePost, retryFailed } from './pipeline.js';
+import { showStatus, rebuildIndexes, exportArchive, verifyArchive, migrateManifestStore } from './archive-commands.js';
+import { createLogger, configureLogging, resolveLogging } from './logger.js';
+import { stopProgressDashboard } from './progress-dashboard.js';
+import { LoggingConfig, OutputFormat } from './types.js';
+
+const log = createLogger('cli');
+
+const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'html'];
+
+// Logging switches from the command line (win over the "logging" section of config.json)
+let cliLogging: LoggingConfig = {};
+
+const HELP = `
+Usage: handing-backup [command] [options]
+
+Commands:
+  backup                 Back up all configured groups (default)
+  post <url>             Back up a single post (--group needed for posts not backed up before)
+  retry-failed           Retry failed/partial posts and failed avatars from the manifests
+  status                 Show per-group manifest statistics
+  rebuild-indexes        Rebuild the _index.md files from the manifests
+  export --format <fmt>  Re-render the archive in another format (${OUTPUT_FORMATS.join(', ')})
+  verify                 Check posts and assets against the manifests (sizes, hashes, orphans, links)
+  migrate-store          Copy the manifest-*.json files into the configured SQLite manifest store
+  save-credentials       Encrypt the Handing password into the configured credentialsFile
+
+Options:
+  --config <path>        Config file (default: ./config.json)
+  --group <name>         Only process groups matching this name (* wildcards allowed)
+  --full-scan            Walk every timeline page instead of stopping at known posts
+  --headed               Show the browser window
+  --format <fmt>         Output format for export (repeatable)
+  --repair               verify: mark posts with missing or corrupted files as partial
+                         export: mark posts without saved data as partial (for retry-failed)
+  --report <path>        verify: where to write the JSON report
+  -v, --verbose          Show debug messages
+  -q, --quiet            Only show warnings and errors (e.g. for cron)
+  --log-file <path>      Append every message, debug included, to a JSON-lines file
+  --plain                Plain log output instead of the live progress view
+  --record               Save DOM, screenshot and HAR of every post page and gallery visited
+  -h, --help             Show this help
+`;
+
+async function run() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      group: { type: 'string' },
+      'full-scan': { type: 'boolean' },
+      headed: { type: 'boolean' },
+      format: { type: 'string', multiple: true },
+      repair: { type: 'boolean' },
+      report: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      quiet: { type: 'boolean', short: 'q' },
+      'log-file': { type: 'string' },
+      plain: { type: 'boolean' },
+      record: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command = 'backup', ...args] = positionals;
+
+  if (values.help) {
+    console.log(HELP);
+    return;
+  }
+
+  if (values.verbose && values.quiet) {
+    throw new Error('Use either --verbose or --quiet, not both');
+  }
+  cliLogging = {
+    level: values.verbose ? 'debug' : values.quiet ? 'warn' : undefined,
+    file: values['log-file']
+  };
+  configureLogging(cliLogging);
+
+  const groupName = values.group;
+
+  switch (command) {
+    case 'backup': {
+      log.info(chalk.blue.bold('\n🚀 Handing Backup Tool\n'));
+      const config = await loadCliConfig(values.config, { ...values, logging: cliLogging });
+      await runBackup(config, { fullScan: values['full-scan'], groupName });
+      log.info(chalk.green.bold('\n✅ Backup completed successfully!\n'));
+      break;
+    }
+
+    case 'post': {
+      const postUrl = args[0];
+      if (!postUrl) {
+        throw new Error('Missing post URL. Usage: handing-backup post <url> [--group <name>]');
+      }
+      const config = await loadCliConfig(values.config, { ...values, logging: cliLogging });
+      await runSinglePost(config, postUrl, { groupName });
+      break;
+    }
+
+    case 'retry-failed': {
+      const config = await loadCliConfig(values.config, { ...values, logging: cliLogging });
+      await retryFailed(config, { groupName });
+      break;
+    }
+
+    case 'status': {
+      await loadStoreConfig(values.config, cliLogging);
+      await showStatus({ groupName });
+      break;
+    }
+
+    case 'rebuild-indexes': {
+      const config = await loadStoreConfig(values.config, cliLogging);
+      await rebuildIndexes(config, { groupName });
+      break;
+    }
+
+    case 'export': {
+      const formats = (values.format || []) as OutputFormat[];
+      const invalid = formats.filter(format => !OUTPUT_FORMATS.includes(format));
+      if (formats.length === 0 || invalid.length > 0) {
+        throw new Error(`export needs --format with one of: ${OUTPUT_FORMATS.join(', ')}`);
+      }
+      const config = await loadStoreConfig(values.config, cliLogging);
+      await exportArchive(config, { formats, groupName, repair: values.repair });
+      break;
+    }
+
+    case 'verify': {
+      const config = await loadStoreConfig(values.config, cliLogging);
+      const report = await verifyArchive(config, { groupName, repair: values.repair, reportPath: values.report });
+      if (report.issues.length > 0) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+
+    case 'migrate-store': {
+      const config = await loadStoreConfig(values.config, cliLogging);
+      await migrateManifestStore(config);
+      break;
+    }
+
+    case 'save-credentials': {
+      const config = await loadConfig(values.config);
+      configureLogging(resolveLogging(config.logging, cliLogging));
+      await saveCredentials(config);
+      break;
+    }
+
+    default:
+      console.log(HELP);
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+run().then(() => {
+  stopProgressDashboard();
+}).catch((error) => {
+  stopProgressDashboard();
+  log.error(chalk.red.bold('\n❌ Error:'));
+  log.error(chalk.red(error.message));
+  log.debug(error.stack);
+  process.exit(1);
+});
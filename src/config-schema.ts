@@ -0,0 +1,300 @@
+/**
+ * Configuration Schema
+ *
+ * A small schema language for config.json: validates every field, reports each problem
+ * with the exact path (e.g. "mediaStrategy.timeout"), fills in defaults, and maps every
+ * field to a HANDING_* environment variable that overrides it
+ */
+
+export interface SchemaNode {
+  type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  anyOf?: SchemaNode[];  // Value must match one of these nodes (e.g. "auto" or a list of groups)
+  required?: boolean;
+  default?: unknown;  // Used when the field is missing (objects: filled with their field defaults)
+  enum?: unknown[];
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  nonEmpty?: boolean;  // Strings: not blank; arrays: at least one item
+  fields?: Record<string, SchemaNode>;  // Objects
+  items?: SchemaNode;  // Arrays
+  check?(value: any): string | undefined;  // Extra rule, returns what is wrong
+}
+
+const ENV_PREFIX = 'HANDING_';
+
+/**
+ * Validate a value against a schema and fill in defaults
+ * @param {any} value - Parsed config.json (with environment overrides applied)
+ * @param {SchemaNode} schema - Schema of the whole file
+ * @param {Map<string, string>} envSources - path -> environment variable the value came from (for messages)
+ * @returns {Object} { value: the value with defaults, errors: one message per problem }
+ */
+export function validateSchema(
+  value: any,
+  schema: SchemaNode,
+  envSources: Map<string, string> = new Map()
+): { value: any; errors: string[] } {
+  const errors: string[] = [];
+  const result = validateNode(value, schema, '', errors, envSources);
+  return { value: result, errors };
+}
+
+function validateNode(value: any, node: SchemaNode, path: string, errors: string[], envSources: Map<string, string>): any {
+  const name = describePath(path, envSources);
+  const errorsBefore = errors.length;
+
+  if (value === undefined) {
+    if (node.required) {
+      errors.push(`${name} is required`);
+      return value;
+    }
+    if (node.type === 'object' && node.default !== undefined) {
+      return validateNode(structuredClone(node.default), node, path, errors, envSources);
+    }
+    return structuredClone(node.default);
+  }
+
+  const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+  if (node.anyOf) {
+    // Only one option of this type: its problems are more precise than "must be A or B"
+    const sameType = node.anyOf.filter(option => option.type === actualType);
+    if (sameType.length === 1) {
+      return runCheck(validateNode(value, sameType[0], path, errors, envSources), node, name, errors, errorsBefore);
+    }
+    for (const option of sameType) {
+      const optionErrors: string[] = [];
+      const result = validateNode(value, option, path, optionErrors, envSources);
+      if (optionErrors.length === 0) {
+        return runCheck(result, node, name, errors);
+      }
+    }
+    errors.push(`${name} must be ${describeNode(node)} (got ${formatValue(value)})`);
+    return value;
+  }
+
+  if (actualType !== node.type) {
+    errors.push(`${name} must be ${describeNode(node)} (got ${formatValue(value)})`);
+    return value;
+  }
+
+  switch (node.type) {
+    case 'string':
+      if (node.nonEmpty && !value.trim()) {
+        errors.push(`${name} must not be empty`);
+        return value;
+      }
+      break;
+
+    case 'number':
+      if (node.integer && !Number.isInteger(value)) {
+        errors.push(`${name} must be a whole number (got ${value})`);
+        return value;
+      }
+      if ((node.min !== undefined && value < node.min) || (node.max !== undefined && value > node.max)) {
+        errors.push(`${name} must be ${describeRange(node)} (got ${value})`);
+        return value;
+      }
+      break;
+
+    case 'array':
+      if (node.nonEmpty && value.length === 0) {
+        errors.push(`${name} must not be empty`);
+        return value;
+      }
+      value = value.map((item, i) => validateNode(item, node.items, `${path}[${i}]`, errors, envSources));
+      break;
+
+    case 'object': {
+      const result = {};
+      for (const key of Object.keys(value)) {
+        if (!(key in node.fields)) {
+          const suggestion = findClosest(key, Object.keys(node.fields));
+          errors.push(`Unknown field ${describePath(joinPath(path, key), envSources)}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+        }
+      }
+      for (const [key, field] of Object.entries(node.fields)) {
+        const fieldValue = validateNode(value[key], field, joinPath(path, key), errors, envSources);
+        if (fieldValue !== undefined) {
+          result[key] = fieldValue;
+        }
+      }
+      value = result;
+      break;
+    }
+  }
+
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push(`${name} must be one of: ${node.enum.map(formatValue).join(', ')} (got ${formatValue(value)})`);
+    return value;
+  }
+
+  return runCheck(value, node, name, errors, errorsBefore);
+}
+
+function runCheck(value: any, node: SchemaNode, name: string, errors: string[], errorsBefore = errors.length): any {
+  // Extra rules only see values that passed the schema
+  if (errors.length > errorsBefore) return value;
+
+  const problem = node.check?.(value);
+  if (problem) {
+    errors.push(`${name} ${problem}`);
+  }
+  return value;
+}
+
+/**
+ * Read the HANDING_* environment variables of every field in a schema
+ * Nested fields join their names: mediaStrategy.timeout is HANDING_MEDIA_STRATEGY_TIMEOUT.
+ * Lists take JSON or comma-separated values; booleans take true/false, 1/0, yes/no
+ * @param {SchemaNode} schema - Schema of the whole file
+ * @param {Object} env - Environment (default: process.env)
+ * @returns {Object} { overrides: [{ path, variable, value }], errors }
+ */
+export function readEnvOverrides(
+  schema: SchemaNode,
+  env: Record<string, string | undefined> = process.env
+): { overrides: Array<{ path: string[]; variable: string; value: unknown }>; errors: string[] } {
+  const overrides = [];
+  const errors: string[] = [];
+
+  for (const { path, node } of listFields(schema)) {
+    const variable = getEnvVariable(path);
+    const raw = env[variable];
+    if (raw === undefined || raw === '') continue;
+
+    try {
+      overrides.push({ path, variable, value: parseEnvValue(raw, node) });
+    } catch (error) {
+      errors.push(`${variable} ${error.message}`);
+    }
+  }
+
+  return { overrides, errors };
+}
+
+/**
+ * Get the environment variable that overrides a field
+ * @param {string[]} path - Field path (e.g. ['mediaStrategy', 'timeout'])
+ * @returns {string} e.g. HANDING_MEDIA_STRATEGY_TIMEOUT
+ */
+export function getEnvVariable(path: string[]): string {
+  return ENV_PREFIX + path
+    .map(key => key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+    .join('_');
+}
+
+/**
+ * List every overridable field: nested objects are walked, anything else is one field
+ */
+function listFields(node: SchemaNode, path: string[] = []): Array<{ path: string[]; node: SchemaNode }> {
+  if (node.type !== 'object') {
+    return [{ path, node }];
+  }
+  return Object.entries(node.fields).flatMap(([key, field]) => listFields(field, [...path, key]));
+}
+
+function parseEnvValue(raw: string, node: SchemaNode): unknown {
+  const trimmed = raw.trim();
+
+  if (/^[[{]/.test(trimmed) && (node.type === 'array' || node.anyOf)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`is not valid JSON: ${error.message}`);
+    }
+  }
+
+  const listNode = node.type === 'array' ? node : node.anyOf?.find(option => option.type === 'array');
+  if (listNode && (node.type === 'array' || trimmed.includes(','))) {
+    return trimmed.split(',').map(item => item.trim()).filter(Boolean).map(item => parseEnvValue(item, listNode.items));
+  }
+
+  switch (node.type) {
+    case 'number': {
+      const number = Number(trimmed);
+      if (Number.isNaN(number)) {
+        throw new Error(`must be a number (got "${raw}")`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (/^(true|1|yes|on)$/i.test(trimmed)) return true;
+      if (/^(false|0|no|off)$/i.test(trimmed)) return false;
+      throw new Error(`must be true or false (got "${raw}")`);
+    case 'object':
+      throw new Error('must be a JSON object');
+    default:
+      // Strings (and string options of anyOf) keep their value as written
+      return node.type === 'string' ? raw : trimmed;
+  }
+}
+
+function describeNode(node: SchemaNode): string {
+  if (node.anyOf) return node.anyOf.map(describeNode).join(' or ');
+  if (node.enum) return node.enum.map(formatValue).join(' or ');
+  switch (node.type) {
+    case 'number': return node.integer ? 'a whole number' : 'a number';
+    case 'boolean': return 'true or false';
+    case 'array': return node.items ? `a list of ${describeItems(node.items)}` : 'a list';
+    case 'object': return 'an object';
+    default: return 'a string';
+  }
+}
+
+function describeItems(node: SchemaNode): string {
+  if (node.enum) return node.enum.map(formatValue).join(', ');
+  return { number: 'numbers', boolean: 'true/false values', object: 'objects', array: 'lists' }[node.type] || 'strings';
+}
+
+function describeRange(node: SchemaNode): string {
+  if (node.min !== undefined && node.max !== undefined) return `between ${node.min} and ${node.max}`;
+  if (node.min !== undefined) return `at least ${node.min}`;
+  return `at most ${node.max}`;
+}
+
+function describePath(path: string, envSources: Map<string, string>): string {
+  const variable = envSources.get(path);
+  return `"${path || '(root)'}"${variable ? ` (from ${variable})` : ''}`;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+/**
+ * Find a known field name close to a misspelled one
+ */
+function findClosest(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,59 +1,384 @@
 /**
  * Configuration Management
  *
- * Loads and validates configuration from config.json
+ * Loads config.json, applies HANDING_* environment overrides and validates
+ * the result against the configuration schema
  */
 
 import { readFile } from 'fs/promises';
-import { resolve } from 'path';
-import { Config } from './types.js';
+import { dirname, resolve } from 'path';
+import { LOG_LEVELS } from './logger.js';
+import { SchemaNode, validateSchema, readEnvOverrides } from './config-schema.js';
+import { PASSWORD_SOURCES } from './credentials.js';
+import { Config, GroupConfig, GroupFiltersConfig, PerformanceConfig, SiteConfig } from './types.js';
 
-export async function loadConfig(): Promise<Config> {
-  const configPath = resolve(process.cwd(), 'config.json');
+export const DEFAULT_PERFORMANCE: Required<PerformanceConfig> = {
+  concurrentPosts: 1,  // Sequential: parallel post pages made Handing unstable
+  timelinePagesPerBatch: 5,  // More pages at once gets throttled by Handing
+  maxTimelinePages: 500,
+  mediaDownloads: 5,
+  externalLinkDownloads: 3,
+  galleryDownloads: 10,
+  galleryIdleScrolls: 25,
+  avatarDownloads: 5,
+  handingRequestsPerSecond: 0,
+  googleRequestsPerSecond: 0,
+  requestJitter: 0.5
+};
 
+export const DEFAULT_SITE: Required<SiteConfig> = {
+  baseUrl: 'https://newmodel.handing.co',
+  loginUrl: 'https://web.handing.co/users/sign_in'
+};
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+const OUTPUT_FORMATS = ['markdown', 'html'];
+
+const PATH_FIELD: SchemaNode = { type: 'string', nonEmpty: true };
+
+const URL_FIELD: SchemaNode = {
+  type: 'string',
+  check: url => isHttpUrl(url) ? undefined : `must be an http(s) URL (got "${url}")`
+};
+
+function isHttpUrl(value: string): boolean {
   try {
-    const configData = await readFile(configPath, 'utf-8');
-    const config = JSON.parse(configData);
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Performance settings: counts are whole numbers of at least 1, request rates are
+ * requests per second (0 for no limit) and the jitter is a fraction of the interval
+ */
+function performanceField(key: string, value: number): SchemaNode {
+  if (key.endsWith('RequestsPerSecond')) return { type: 'number', min: 0, default: value };
+  if (key === 'requestJitter') return { type: 'number', min: 0, max: 1, default: value };
+  return { type: 'number', integer: true, min: 1, default: value };
+}
 
-    // Validate required fields
-    validateConfig(config);
+/**
+ * Every field of config.json: optional sections are filled with their defaults,
+ * so the rest of the tool can rely on them being there
+ */
+export const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    email: {
+      type: 'string',
+      required: true,
+      nonEmpty: true,
+      check: email => email === 'your-email@example.com' ? 'is still the example value. Please update config.json with your actual Handing credentials' : undefined
+    },
+    password: { type: 'string', nonEmpty: true },
+    passwordEnv: {
+      type: 'string',
+      check: name => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? undefined : `must be an environment variable name (got "${name}")`
+    },
+    passwordCommand: { type: 'string', nonEmpty: true },
+    credentialsFile: PATH_FIELD,
+    outputDir: { ...PATH_FIELD, required: true },
+    groups: {
+      anyOf: [
+        { type: 'string', enum: ['auto'] },
+        {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              name: { type: 'string', required: true, nonEmpty: true },
+              url: { ...URL_FIELD, required: true },
+              archived: { type: 'boolean' }
+            }
+          }
+        }
+      ]
+    },
+    groupFilters: {
+      type: 'object',
+      fields: {
+        include: { type: 'array', items: { type: 'string', nonEmpty: true } },
+        exclude: { type: 'array', items: { type: 'string', nonEmpty: true } }
+      }
+    },
+    mediaStrategy: {
+      type: 'object',
+      default: {},
+      fields: {
+        downloadImages: { type: 'boolean', default: true },
+        downloadVideos: { type: 'boolean', default: true },
+        maxRetries: { type: 'number', integer: true, min: 0, default: 3 },
+        timeout: { type: 'number', integer: true, min: 1, default: 30000 }
+      }
+    },
+    scraping: {
+      type: 'object',
+      default: {},
+      fields: {
+        headless: { type: 'boolean', default: true },
+        scrollDelay: { type: 'number', integer: true, min: 0, default: 1000 },
+        maxRetries: { type: 'number', integer: true, min: 0, default: 3 },
+        userAgent: { type: 'string', nonEmpty: true, default: DEFAULT_USER_AGENT },
+        reuseSession: { type: 'boolean', default: true },
+        sessionFile: PATH_FIELD,
+        extractInteractions: { type: 'boolean', default: false }
+      }
+    },
+    filesystem: {
+      type: 'object',
+      default: {},
+      fields: {
+        generateMonthlyIndex: { type: 'boolean', default: true },
+        generateTopLevelIndex: { type: 'boolean', default: true },
+        sanitizeFilenames: { type: 'boolean', default: true }
+      }
+    },
+    outputFormat: {
+      anyOf: [
+        { type: 'string', enum: OUTPUT_FORMATS },
+        { type: 'array', nonEmpty: true, items: { type: 'string', enum: OUTPUT_FORMATS } }
+      ],
+      default: 'markdown'
+    },
+    downloaders: {
+      type: 'object',
+      default: {},
+      fields: {
+        enableGalleries: { type: 'boolean', default: true },
+        maxImagesPerGallery: { type: 'number', integer: true, min: 0, default: 100 }
+      }
+    },
+    manifestStore: {
+      type: 'object',
+      default: { type: 'json' },
+      fields: {
+        type: { type: 'string', required: true, enum: ['json', 'sqlite'] },
+        path: PATH_FIELD
+      }
+    },
+    logging: {
+      type: 'object',
+      default: {},
+      fields: {
+        level: { type: 'string', enum: LOG_LEVELS, default: 'info' },
+        file: PATH_FIELD
+      }
+    },
+    performance: {
+      type: 'object',
+      default: {},
+      fields: Object.fromEntries(
+        Object.entries(DEFAULT_PERFORMANCE).map(([key, value]) => [key, performanceField(key, value)])
+      )
+    },
+    site: {
+      type: 'object',
+      default: {},
+      fields: {
+        baseUrl: { ...URL_FIELD, default: DEFAULT_SITE.baseUrl },
+        loginUrl: { ...URL_FIELD, default: DEFAULT_SITE.loginUrl }
+      }
+    },
+    selectorProfile: PATH_FIELD
+  }
+};
 
-    return config;
+/**
+ * Load and validate the configuration file
+ * Any field can also be set with a HANDING_* environment variable (e.g. HANDING_EMAIL,
+ * HANDING_OUTPUT_DIR), which wins over config.json
+ * @param {string} path - Optional config file path (defaults to ./config.json)
+ * @returns {Promise<Config>}
+ */
+export async function loadConfig(path?: string): Promise<Config> {
+  const configPath = resolve(process.cwd(), path || 'config.json');
+
+  let raw: any;
+  try {
+    raw = JSON.parse(await readFile(configPath, 'utf-8'));
   } catch (error: any) {
+    if (error.code === 'ENOENT' && path) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
     if (error.code === 'ENOENT') {
       throw new Error(
         'config.json not found. Please copy config.example.json to config.json and fill in your credentials.'
       );
     }
+    if (error instanceof SyntaxError) {
+      throw new Error(`${configPath} is not valid JSON: ${error.message}`);
+    }
     throw error;
   }
+
+  const envSources = new Map<string, string>();
+  const env = readEnvOverrides(CONFIG_SCHEMA);
+  for (const { path: fieldPath, variable, value } of env.overrides) {
+    if (setField(raw, fieldPath, value)) {
+      envSources.set(fieldPath.join('.'), variable);
+    }
+  }
+
+  const { value: config, errors } = validateSchema(raw, CONFIG_SCHEMA, envSources);
+  const problems = [...env.errors, ...errors];
+  if (errors.length === 0) {
+    problems.push(...checkPasswordSource(config, envSources), ...checkGroupUrls(config));
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration in ${configPath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  // A relative path belongs to the config file, not to the directory the tool runs from
+  // (paths from environment variables are relative to the working directory)
+  const resolvePath = (field: string, value: string) =>
+    resolve(envSources.has(field) ? process.cwd() : dirname(configPath), value);
+
+  config.outputDir = resolvePath('outputDir', config.outputDir);
+  if (config.logging.file) {
+    config.logging.file = resolvePath('logging.file', config.logging.file);
+  }
+  if (config.credentialsFile) {
+    config.credentialsFile = resolvePath('credentialsFile', config.credentialsFile);
+  }
+  if (config.selectorProfile) {
+    config.selectorProfile = resolvePath('selectorProfile', config.selectorProfile);
+  }
+  if (config.scraping.sessionFile) {
+    config.scraping.sessionFile = resolvePath('scraping.sessionFile', config.scraping.sessionFile);
+  }
+  if (config.manifestStore?.path) {
+    config.manifestStore.path = resolvePath('manifestStore.path', config.manifestStore.path);
+  }
+
+  return config;
 }
 
-function validateConfig(config: any): void {
-  const required = ['email', 'password', 'outputDir', 'groups'];
+/**
+ * Check that exactly one password source is configured
+ * @returns {string[]} Problems found
+ */
+function checkPasswordSource(config: any, envSources: Map<string, string>): string[] {
+  const configured = PASSWORD_SOURCES.filter(source => config[source] !== undefined);
+  const names = PASSWORD_SOURCES.map(source => `"${source}"`).join(', ');
 
-  for (const field of required) {
-    if (!config[field]) {
-      throw new Error(`Missing required field in config.json: ${field}`);
-    }
+  if (configured.length === 0) {
+    return [`No password configured: set one of ${names} (or the HANDING_PASSWORD environment variable)`];
+  }
+  if (configured.length > 1) {
+    const found = configured.map(source => `"${source}"${envSources.has(source) ? ` (from ${envSources.get(source)})` : ''}`);
+    return [`Only one password source can be set, found: ${found.join(', ')}`];
   }
+  return [];
+}
 
-  // Check for example values that haven't been changed
-  if (config.email === 'your-email@example.com') {
-    throw new Error('Please update config.json with your actual Handing credentials');
+/**
+ * Check that configured groups are timelines of the configured Handing site
+ * @returns {string[]} Problems found
+ */
+function checkGroupUrls(config: Config): string[] {
+  if (!Array.isArray(config.groups)) {
+    return [];
   }
 
-  // Validate groups array
-  if (!Array.isArray(config.groups) || config.groups.length === 0) {
-    throw new Error('config.json must include at least one group in the "groups" array');
+  const { baseUrl } = getSiteSettings(config);
+  return config.groups
+    .map((group, i) => ({ group, i }))
+    .filter(({ group }) => new URL(group.url).origin !== new URL(baseUrl).origin)
+    .map(({ group, i }) => `"groups[${i}].url" must be a Handing timeline URL on ${baseUrl} (got "${group.url}")`);
+}
+
+/**
+ * Set a nested field of the parsed config.json, creating missing sections
+ * @returns {boolean} False if a section on the way is not an object (validation reports it)
+ */
+function setField(target: any, path: string[], value: unknown): boolean {
+  if (typeof target !== 'object' || target === null || Array.isArray(target)) {
+    return false;
   }
 
-  for (const group of config.groups) {
-    if (!group.name || !group.url) {
-      throw new Error('Each group must have a "name" and "url" field');
+  let section = target;
+  for (const key of path.slice(0, -1)) {
+    if (section[key] === undefined) {
+      section[key] = {};
     }
-    if (!group.url.includes('newmodel.handing.co')) {
-      throw new Error(`Invalid group URL: ${group.url}. Must be a Handing timeline URL.`);
+    section = section[key];
+    if (typeof section !== 'object' || section === null || Array.isArray(section)) {
+      return false;
     }
   }
+  section[path[path.length - 1]] = value;
+  return true;
+}
+
+/**
+ * Get the performance settings, with defaults for the ones not in config.json
+ * @param {Config} config - Configuration object
+ * @returns {Required<PerformanceConfig>}
+ */
+export function getPerformanceSettings(config: Config): Required<PerformanceConfig> {
+  return { ...DEFAULT_PERFORMANCE, ...config.performance };
+}
+
+/**
+ * Get the Handing site URLs (the real site unless config.json points elsewhere, e.g. a test server)
+ * @param {Config} config - Configuration object
+ * @returns {Required<SiteConfig>} URLs without a trailing slash
+ */
+export function getSiteSettings(config: Config): Required<SiteConfig> {
+  const { baseUrl, loginUrl } = { ...DEFAULT_SITE, ...config.site };
+  return { baseUrl: baseUrl.replace(/\/+$/, ''), loginUrl };
+}
+
+/**
+ * Check whether groups should be discovered from the Handing sidebar
+ * @param {Config} config - Configuration object
+ * @returns {boolean} True if "groups" is omitted, empty or "auto"
+ */
+export function usesGroupDiscovery(config: Config): boolean {
+  return config.groups === undefined ||
+         config.groups === 'auto' ||
+         config.groups.length === 0;
+}
+
+/**
+ * Apply include/exclude name patterns to a list of groups
+ * @param {GroupConfig[]} groups - Groups to filter
+ * @param {GroupFiltersConfig} filters - Include/exclude patterns
+ * @returns {GroupConfig[]} Groups that pass the filters
+ */
+export function filterGroups(groups: GroupConfig[], filters: GroupFiltersConfig = {}): GroupConfig[] {
+  const { include = [], exclude = [] } = filters;
+
+  return groups.filter(group => {
+    if (include.length > 0 && !include.some(pattern => matchesNamePattern(group.name, pattern))) {
+      return false;
+    }
+    return !exclude.some(pattern => matchesNamePattern(group.name, pattern));
+  });
+}
+
+/**
+ * Match a group name against a pattern
+ * Patterns are case-insensitive. "*" matches any run of characters; a pattern
+ * without "*" matches anywhere in the name (e.g. "Sala" matches "Sala de 4A").
+ * @param {string} name - Group name
+ * @param {string} pattern - Name pattern
+ * @returns {boolean} True if the name matches
+ */
+function matchesNamePattern(name: string, pattern: string): boolean {
+  const normalizedName = name.trim().toLowerCase();
+  const normalizedPattern = pattern.trim().toLowerCase();
+
+  if (!normalizedPattern.includes('*')) {
+    return normalizedName.includes(normalizedPattern);
+  }
+
+  const regexSource = normalizedPattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regexSource}$`).test(normalizedName);
 }
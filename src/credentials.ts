@@ -0,0 +1,274 @@
+/**
+ * Credential Sources
+ *
+ * The Handing password can come from config.json ("password"), from an environment
+ * variable ("passwordEnv"), from the output of a command such as a password manager
+ * ("passwordCommand") or from a credentials file encrypted with a passphrase
+ * ("credentialsFile"). Exactly one of them is configured (checked by loadConfig)
+ */
+
+import { spawn } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { createLogger } from './logger.js';
+import { Config } from './types.js';
+
+const log = createLogger('credentials');
+
+export const PASSWORD_SOURCES = ['password', 'passwordEnv', 'passwordCommand', 'credentialsFile'] as const;
+
+export type PasswordSource = typeof PASSWORD_SOURCES[number];
+
+// Lets unattended runs (e.g. cron) unlock the credentials file without a prompt
+export const PASSPHRASE_VARIABLE = 'HANDING_CREDENTIALS_PASSPHRASE';
+
+const COMMAND_TIMEOUT = 60000;  // ms a password command may take (it may ask for a PIN)
+const CREDENTIALS_VERSION = 1;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;  // AES-256
+
+interface CredentialsFile {
+  version: number;
+  kdf: 'scrypt';
+  scrypt: { N: number; r: number; p: number };
+  salt: string;  // base64
+  iv: string;  // base64
+  tag: string;  // base64 GCM authentication tag
+  data: string;  // base64 encrypted JSON { password }
+}
+
+// One lookup per configuration, so the password command runs (and the passphrase is asked) only once
+const passwords = new WeakMap<Config, Promise<string>>();
+
+/**
+ * Get the password source a configuration uses
+ * @param {Config} config - Configuration object
+ * @returns {PasswordSource}
+ */
+export function getPasswordSource(config: Config): PasswordSource {
+  return PASSWORD_SOURCES.find(source => config[source] !== undefined) || 'password';
+}
+
+/**
+ * Get the Handing password from the configured source
+ * @param {Config} config - Configuration object
+ * @returns {Promise<string>}
+ */
+export function getPassword(config: Config): Promise<string> {
+  if (!passwords.has(config)) {
+    const password = readPassword(config);
+    // A failed lookup (e.g. a mistyped passphrase) can be retried
+    password.catch(() => passwords.delete(config));
+    passwords.set(config, password);
+  }
+  return passwords.get(config);
+}
+
+async function readPassword(config: Config): Promise<string> {
+  switch (getPasswordSource(config)) {
+    case 'passwordEnv': {
+      const password = process.env[config.passwordEnv];
+      if (!password) {
+        throw new Error(`Environment variable ${config.passwordEnv} (set as "passwordEnv" in config.json) is not set`);
+      }
+      return password;
+    }
+
+    case 'passwordCommand':
+      log.debug(`  → Getting password from: ${config.passwordCommand}`);
+      return runPasswordCommand(config.passwordCommand);
+
+    case 'credentialsFile': {
+      const passphrase = await getPassphrase(`🔑 Passphrase for ${config.credentialsFile}: `);
+      return (await readCredentialsFile(config.credentialsFile, passphrase)).password;
+    }
+
+    default:
+      return config.password;
+  }
+}
+
+/**
+ * Run a password command and return the first line it prints
+ * (the convention of pass, gopass and most password manager CLIs)
+ */
+function runPasswordCommand(command: string): Promise<string> {
+  return new Promise((resolvePassword, reject) => {
+    // stdin and stderr stay on the terminal so the command can ask for a PIN
+    const child = spawn(command, { shell: true, stdio: ['inherit', 'pipe', 'inherit'], timeout: COMMAND_TIMEOUT });
+    let output = '';
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', chunk => { output += chunk; });
+    child.on('error', error => reject(new Error(`Password command failed: ${error.message}`)));
+    child.on('close', (code, signal) => {
+      if (code !== 0) {
+        reject(new Error(`Password command failed (${signal ? `stopped by ${signal}` : `exit code ${code}`}): ${command}`));
+        return;
+      }
+      const password = output.split(/\r?\n/)[0];
+      if (!password) {
+        reject(new Error(`Password command printed no password: ${command}`));
+        return;
+      }
+      resolvePassword(password);
+    });
+  });
+}
+
+/**
+ * Read and decrypt a credentials file
+ * @param {string} filePath - Credentials file
+ * @param {string} passphrase - Passphrase it was encrypted with
+ * @returns {Promise<{password: string}>}
+ */
+export async function readCredentialsFile(filePath: string, passphrase: string): Promise<{ password: string }> {
+  let file: CredentialsFile;
+  try {
+    file = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Credentials file not found: ${filePath}. Create it with: handing-backup save-credentials`);
+    }
+    throw new Error(`Could not read credentials file ${filePath}: ${error.message}`);
+  }
+
+  // Version 1 files are always written with SCRYPT_PARAMS: other values (e.g. a huge N that would
+  // exhaust memory) mean the file was not written by us
+  const { N, r, p } = file.scrypt || {} as CredentialsFile['scrypt'];
+  if (file.version !== CREDENTIALS_VERSION || file.kdf !== 'scrypt' ||
+      N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p) {
+    throw new Error(`Unsupported credentials file: ${filePath}`);
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(file.salt, 'base64'), SCRYPT_PARAMS);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error(`Wrong passphrase, or the credentials file is damaged: ${filePath}`);
+  }
+}
+
+/**
+ * Encrypt a password with a passphrase and write it to a credentials file (readable by the owner only)
+ * @param {string} filePath - Credentials file
+ * @param {string} password - Handing password
+ * @param {string} passphrase - Passphrase that unlocks the file
+ */
+export async function writeCredentialsFile(filePath: string, password: string, passphrase: string) {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify({ password }), 'utf8'), cipher.final()]);
+
+  const file: CredentialsFile = {
+    version: CREDENTIALS_VERSION,
+    kdf: 'scrypt',
+    scrypt: SCRYPT_PARAMS,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  await chmod(filePath, 0o600);  // mode only applies when the file is created
+}
+
+/**
+ * Ask for the Handing password and a passphrase, and save them as the configured credentials file
+ * @param {Config} config - Configuration object (with "credentialsFile")
+ */
+export async function saveCredentials(config: Config) {
+  if (getPasswordSource(config) !== 'credentialsFile') {
+    throw new Error('Set "credentialsFile" in config.json (instead of "password") to choose where the encrypted credentials are saved');
+  }
+
+  const password = await promptSecret(`🔒 Handing password for ${config.email}: `);
+  if (!password) {
+    throw new Error('No password entered');
+  }
+  const passphrase = await getPassphrase('🔑 New passphrase: ', true);
+
+  await writeCredentialsFile(config.credentialsFile, password, passphrase);
+  log.info(`✓ Encrypted credentials saved to ${config.credentialsFile}`);
+}
+
+/**
+ * Get the credentials passphrase from HANDING_CREDENTIALS_PASSPHRASE or ask for it
+ */
+async function getPassphrase(question: string, confirm = false): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_VARIABLE];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const passphrase = await promptSecret(question);
+  if (!passphrase) {
+    throw new Error('No passphrase entered');
+  }
+  if (confirm && await promptSecret('🔑 Repeat passphrase: ') !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Ask a question on the terminal without echoing the answer
+ */
+function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`Cannot ask for secrets without a terminal (set ${PASSPHRASE_VARIABLE} for unattended runs)`));
+  }
+
+  return new Promise((resolveAnswer, reject) => {
+    let answer = '';
+
+    const finish = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolveAnswer(answer);
+          return;
+        }
+        if (char === '\u0003') {  // Ctrl+C
+          finish();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        answer = char === '\u007f' || char === '\b' ? answer.slice(0, -1) : answer + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setEncoding('utf8');
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolveKey, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, { ...params, maxmem: 256 * params.N * params.r }, (error, key) => {
+      if (error) reject(error);
+      else resolveKey(key);
+    });
+  });
+}
@@ -6,15 +6,27 @@
 
 import { createWriteStream } from 'fs';
 import { mkdir } from 'fs/promises';
-import { dirname } from 'path';
+import { basename, dirname } from 'path';
 import { pipeline } from 'stream/promises';
 import pLimit from 'p-limit';
+import { createLogger } from './logger.js';
+import { trackTransfer } from './progress-dashboard.js';
+import { throttle, getServiceForUrl, RateLimitedService } from './rate-limiter.js';
 
+const log = createLogger('downloader');
+
+/**
+ * Download an image or video with retries
+ * @param {string} url - Media URL
+ * @param {string} filePath - Destination file path
+ * @param {Object} options - { maxRetries, timeout, service: rate limit to apply (default: from the URL) }
+ */
 export async function downloadMedia(url: string, filePath: string, options: any = {}) {
   const {
     maxRetries = 3,
-    timeout = 30000
-  } = options;
+    timeout = 30000,
+    service = getServiceForUrl(url)
+  }: { maxRetries?: number; timeout?: number; service?: RateLimitedService | null } = options;
 
   let lastError: any;
 
@@ -24,6 +36,7 @@ export async function downloadMedia(url: string, filePath: string, options: any
       await mkdir(dirname(filePath), { recursive: true });
 
       // Fetch the media
+      await throttle(service);
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
 
@@ -38,8 +51,7 @@ export async function downloadMedia(url: string, filePath: string, options: any
       }
 
       // Stream to file
-      const fileStream = createWriteStream(filePath);
-      await pipeline(response.body, fileStream);
+      await streamToFile(response, filePath);
 
       // Get file size
       const stats = await import('fs/promises').then(fs => fs.stat(filePath));
@@ -52,7 +64,7 @@ export async function downloadMedia(url: string, filePath: string, options: any
 
     } catch (error: any) {
       lastError = error;
-      console.error(`Download attempt ${attempt}/${maxRetries} failed for ${url}: ${error.message}`);
+      log.debug(`Download attempt ${attempt}/${maxRetries} failed for ${url}: ${error.message}`);
 
       if (attempt < maxRetries) {
         // Wait before retry (exponential backoff)
@@ -101,6 +113,7 @@ export async function downloadExternalLink(url: string, filePath: string, option
     await mkdir(dirname(filePath), { recursive: true });
 
     // Fetch the external link
+    await throttle(getServiceForUrl(url));
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
@@ -119,8 +132,7 @@ export async function downloadExternalLink(url: string, filePath: string, option
     const contentType = response.headers.get('content-type') || '';
 
     // Stream to file
-    const fileStream = createWriteStream(filePath);
-    await pipeline(response.body, fileStream);
+    await streamToFile(response, filePath);
 
     // Get file size
     const stats = await import('fs/promises').then(fs => fs.stat(filePath));
@@ -146,6 +158,27 @@ export async function downloadExternalLink(url: string, filePath: string, option
   }
 }
 
+/**
+ * Write a response body to a file, reporting the bytes received to the progress dashboard
+ */
+async function streamToFile(response: Response, filePath: string) {
+  const transfer = trackTransfer(basename(filePath), Number(response.headers.get('content-length')) || undefined);
+  try {
+    await pipeline(
+      response.body,
+      async function* (chunks) {
+        for await (const chunk of chunks) {
+          transfer.update(chunk.length);
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath)
+    );
+  } finally {
+    transfer.done();
+  }
+}
+
 function getExtensionFromContentType(contentType: string): string {
   const mimeToExt: Record<string, string> = {
     // Documents
@@ -246,6 +279,9 @@ export async function downloadAvatar(
       // Ensure directory exists
       await mkdir(dirname(filePath), { recursive: true });
 
+      // Avatars are served by Handing
+      await throttle('handing');
+
       // Smaller timeout for avatars (usually small files)
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
@@ -263,8 +299,7 @@ export async function downloadAvatar(
       }
 
       // Stream to file
-      const fileStream = createWriteStream(filePath);
-      await pipeline(response.body, fileStream);
+      await streamToFile(response, filePath);
 
       return { success: true };
 
@@ -301,7 +336,7 @@ export async function downloadAvatarsBatch(
     }
   }
 
-  console.log(`  → Downloading ${uniqueAvatars.size} unique avatars...`);
+  log.info(`  → Downloading ${uniqueAvatars.size} unique avatars...`);
 
   const promises = Array.from(uniqueAvatars.values()).map((avatar) =>
     limit(async () => {
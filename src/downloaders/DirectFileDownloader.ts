@@ -6,11 +6,14 @@
  * Filters out non-downloadable URLs (web pages, forms, etc.)
  */
 
+import { createLogger } from '../logger.js';
 import { Downloader, DownloadContext, DownloadResult } from '../types.js';
 import { downloadExternalLink } from '../downloader.js';
 import { sanitizeFilename, parseTimestamp } from '../utils.js';
 import { getMediaFilePath } from '../file-organizer.js';
 
+const log = createLogger('direct-file');
+
 export class DirectFileDownloader implements Downloader {
   canHandle(url: string): boolean {
     // Reject gallery links (handled by specialized downloaders)
@@ -127,7 +130,7 @@ export class DirectFileDownloader implements Downloader {
       const tempFilename = this.generateFilename(post, linkName, fileIndex, 'tmp');
       const tempFilePath = getMediaFilePath(baseDir, post, tempFilename);
 
-      console.log(`  Attempting direct file download: ${url}`);
+      log.debug(`  Attempting direct file download: ${url}`);
       const result = await downloadExternalLink(url, tempFilePath, { timeout: 40000 });
 
       if (result.status === 'failed') {
@@ -152,7 +155,7 @@ export class DirectFileDownloader implements Downloader {
       if (result.extension === 'html') {
         const isUnwantedHtml = await this.isUnwantedHtmlPage(finalFilePath);
         if (isUnwantedHtml) {
-          console.log(`  ⚠ HTML appears to be an error page or web application, not a downloadable file`);
+          log.debug(`  ⚠ HTML appears to be an error page or web application, not a downloadable file`);
           // Delete the unwanted HTML file
           const fs = await import('fs/promises');
           await fs.unlink(finalFilePath).catch(() => {});
@@ -165,7 +168,7 @@ export class DirectFileDownloader implements Downloader {
         }
       }
 
-      console.log(`  ✓ Downloaded: ${finalFilename} (${result.extension})`);
+      log.info(`  ✓ Downloaded: ${finalFilename} (${result.extension})`);
 
       return [{
         status: 'success',
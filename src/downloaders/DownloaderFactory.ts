@@ -5,7 +5,8 @@
  * Uses priority system when multiple downloaders can handle the same URL
  */
 
-import { Downloader } from '../types.js';
+import { DEFAULT_PERFORMANCE } from '../config.js';
+import { Downloader, PerformanceConfig } from '../types.js';
 import { DirectFileDownloader } from './DirectFileDownloader.js';
 import { GooglePhotosDownloader } from './GooglePhotosDownloader.js';
 import { GoogleDriveFileDownloader } from './GoogleDriveFileDownloader.js';
@@ -15,11 +16,11 @@ import { Page } from 'playwright';
 export class DownloaderFactory {
   private downloaders: Downloader[] = [];
 
-  constructor(page?: Page) {
+  constructor(page?: Page, performance: Required<PerformanceConfig> = DEFAULT_PERFORMANCE) {
     // Register all downloaders
     // Note: Order matters for priority when multiple can handle same URL
-    this.registerDownloader(new GooglePhotosDownloader(page));
-    this.registerDownloader(new GoogleDriveFolderDownloader(page));
+    this.registerDownloader(new GooglePhotosDownloader(page, performance));
+    this.registerDownloader(new GoogleDriveFolderDownloader(page, performance));
     this.registerDownloader(new GoogleDriveFileDownloader(page));
     this.registerDownloader(new DirectFileDownloader());
   }
@@ -5,11 +5,15 @@
  * Files are saved to External_Files directory
  */
 
+import { createLogger } from '../logger.js';
+import { throttle } from '../rate-limiter.js';
 import { Downloader, DownloadContext, DownloadResult } from '../types.js';
 import { Page } from 'playwright';
 import { sleep, parseTimestamp } from '../utils.js';
 import { getMediaFilePath } from '../file-organizer.js';
 
+const log = createLogger('google-drive-file');
+
 export class GoogleDriveFileDownloader implements Downloader {
   private page: Page | null = null;
 
@@ -40,7 +44,7 @@ export class GoogleDriveFileDownloader implements Downloader {
     }
 
     try {
-      console.log(`Downloading Google Drive file: ${url}`);
+      log.info(`Downloading Google Drive file: ${url}`);
 
       // Extract file ID from URL
       const fileIdMatch = url.match(/\/d\/([^\/\?]+)/);
@@ -55,6 +59,7 @@ export class GoogleDriveFileDownloader implements Downloader {
 
       // Navigate to the file page to get metadata
       // Use 'load' instead of 'networkidle' to avoid waiting for endless analytics/tracking
+      await throttle('google');
       await this.page.goto(url, { waitUntil: 'load', timeout: 120000 });
       await sleep(2000);
 
@@ -101,11 +106,11 @@ export class GoogleDriveFileDownloader implements Downloader {
         actualFilename = metadata.filename;
         contentType = metadata.type;
       } catch (e) {
-        console.log('  Could not extract metadata from page');
+        log.debug('  Could not extract metadata from page');
       }
 
       // Construct direct download URL
-      console.log('  Constructing direct download URL...');
+      log.debug('  Constructing direct download URL...');
       const directDownloadUrl = `https://drive.usercontent.google.com/download?id=${fileId}&export=download&authuser=0&confirm=t`;
 
       // Generate the proper filename with smart extension handling
@@ -148,12 +153,13 @@ export class GoogleDriveFileDownloader implements Downloader {
       const baseDir = context.baseDir || context.outputDir;
       const filePath = getMediaFilePath(baseDir, context.post, filename);
 
-      console.log(`  Downloading: ${actualFilename || fileId}`);
-      console.log(`  Target path: ${filePath}`);
+      log.debug(`  Downloading: ${actualFilename || fileId}`);
+      log.debug(`  Target path: ${filePath}`);
 
       // Use Playwright's authenticated request context to download the file
       // This ensures we have the necessary cookies for Google Drive access
       try {
+        await throttle('google');
         const response = await this.page.request.get(directDownloadUrl, { timeout: 120000 });
 
         if (response.ok()) {
@@ -166,7 +172,7 @@ export class GoogleDriveFileDownloader implements Downloader {
           const stats = await fs.stat(filePath);
           const fileSize = stats.size;
 
-          console.log(`  ✓ Downloaded to: ${filePath} (${this.formatBytes(fileSize)})`);
+          log.info(`  ✓ Downloaded to: ${filePath} (${this.formatBytes(fileSize)})`);
 
           return [{
             status: 'success',
@@ -181,40 +187,40 @@ export class GoogleDriveFileDownloader implements Downloader {
         }
       } catch (error: any) {
         // If direct download failed, it might be a large file that requires virus scan bypass
-        console.log(`  ⚠️  Direct download failed: ${error.message}`);
-        console.log(`  Trying alternative method for potentially large file...`);
+        log.warn(`  ⚠️  Direct download failed: ${error.message}`);
+        log.debug(`  Trying alternative method for potentially large file...`);
 
         // Set up popup listener BEFORE triggering download
         const popupPromise = this.page.context().waitForEvent('page', { timeout: 10000 });
 
         // Try to trigger download with keyboard shortcut
-        console.log('  Trying keyboard shortcut (Meta+D / Cmd+D)...');
+        log.debug('  Trying keyboard shortcut (Meta+D / Cmd+D)...');
         await this.page.keyboard.press('Meta+d');
         await sleep(1000);
 
         // Check if a new tab/popup opened (virus scan warning for large files)
         let newPage = null;
         try {
-          console.log('  Waiting for potential new tab (virus scan warning)...');
+          log.debug('  Waiting for potential new tab (virus scan warning)...');
           newPage = await popupPromise;
           await newPage.waitForLoadState('networkidle', { timeout: 10000 });
 
           // Check if it's the virus scan warning page
           const virusScanForm = await newPage.locator('#download-form').count();
           if (virusScanForm > 0) {
-            console.log('  ✓ Detected virus scan warning page (large file >100MB)');
+            log.info('  ✓ Detected virus scan warning page (large file >100MB)');
 
             // Set up download listener on the new page
             const newPageDownloadPromise = newPage.waitForEvent('download', { timeout: 180000 });
 
             // Click "Download anyway" button
             const downloadButton = newPage.locator('#uc-download-link[type="submit"]');
-            console.log('  Clicking "Download anyway" button...');
+            log.debug('  Clicking "Download anyway" button...');
             await downloadButton.click({ timeout: 5000 });
 
             // Wait for download from the new page
             const download = await newPageDownloadPromise;
-            console.log(`  ✓ Download started: ${await download.suggestedFilename()}`);
+            log.debug(`  ✓ Download started: ${await download.suggestedFilename()}`);
 
             // Get suggested filename and update if better than our default
             const suggestedFilename = await download.suggestedFilename();
@@ -253,7 +259,7 @@ export class GoogleDriveFileDownloader implements Downloader {
             const stats = await fs.stat(finalPath);
             const fileSize = stats.size;
 
-            console.log(`  ✓ Downloaded to: ${finalPath} (${this.formatBytes(fileSize)})`);
+            log.info(`  ✓ Downloaded to: ${finalPath} (${this.formatBytes(fileSize)})`);
 
             // Close the popup tab
             await newPage.close();
@@ -267,12 +273,12 @@ export class GoogleDriveFileDownloader implements Downloader {
               sourceName: actualFilename || suggestedFilename || fileId
             }];
           } else {
-            console.log('  New tab opened but no virus scan warning found');
+            log.debug('  New tab opened but no virus scan warning found');
             await newPage.close();
           }
         } catch (e) {
           // No popup or popup handling failed
-          console.log('  ✗ Alternative method also failed');
+          log.warn('  ✗ Alternative method also failed');
         }
 
         return [{
@@ -283,7 +289,7 @@ export class GoogleDriveFileDownloader implements Downloader {
       }
 
     } catch (error: any) {
-      console.error(`  ✗ Failed to download Google Drive file: ${error.message}`);
+      log.warn(`  ✗ Failed to download Google Drive file: ${error.message}`);
       return [{
         status: 'failed',
         url,
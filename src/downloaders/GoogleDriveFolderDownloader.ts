@@ -6,16 +6,24 @@
  * Downloads files directly using file IDs without visiting individual file pages
  */
 
-import { Downloader, DownloadContext, DownloadResult } from '../types.js';
+import { createLogger } from '../logger.js';
+import { DEFAULT_PERFORMANCE } from '../config.js';
+import { throttle } from '../rate-limiter.js';
+import { Downloader, DownloadContext, DownloadResult, PerformanceConfig } from '../types.js';
 import { Page } from 'playwright';
 import { sleep, parseTimestamp } from '../utils.js';
 import { getMediaFilePath } from '../file-organizer.js';
+import { startRecording } from '../recorder.js';
+
+const log = createLogger('google-drive-folder');
 
 export class GoogleDriveFolderDownloader implements Downloader {
   private page: Page | null = null;
+  private performance: Required<PerformanceConfig>;
 
-  constructor(page?: Page) {
+  constructor(page?: Page, performance: Required<PerformanceConfig> = DEFAULT_PERFORMANCE) {
     this.page = page || null;
+    this.performance = performance;
   }
 
   setPage(page: Page) {
@@ -42,7 +50,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
     }
 
     try {
-      console.log(`Extracting files from Google Drive folder: ${url}`);
+      log.info(`Extracting files from Google Drive folder: ${url}`);
 
       // Start recursive download from root folder
       const results = await this.downloadFolderRecursively(url, '', context, 0);
@@ -58,7 +66,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
       return results;
 
     } catch (error: any) {
-      console.error(`Failed to extract from Google Drive folder: ${error.message}`);
+      log.warn(`Failed to extract from Google Drive folder: ${error.message}`);
       return [{
         status: 'failed',
         url,
@@ -83,39 +91,29 @@ export class GoogleDriveFolderDownloader implements Downloader {
   ): Promise<DownloadResult[]> {
     const MAX_DEPTH = 10; // Prevent infinite recursion
     if (depth >= MAX_DEPTH) {
-      console.log(`  ⚠️  Max depth (${MAX_DEPTH}) reached, skipping deeper folders`);
+      log.warn(`  ⚠️  Max depth (${MAX_DEPTH}) reached, skipping deeper folders`);
       return [];
     }
 
     const indent = '  '.repeat(depth + 1);
-    console.log(`${indent}📁 Processing folder: ${folderPath || 'root'}${depth > 0 ? ` (depth ${depth})` : ''}`);
-
-    // Navigate to the folder
-    await this.page!.goto(folderUrl, { waitUntil: 'networkidle', timeout: 60000 });
-
-    // Wait for files to load
-    await sleep(3000);
-
-    // Scroll to load all items
-    await this.scrollToLoadAll(this.page!);
+    log.info(`${indent}📁 Processing folder: ${folderPath || 'root'}${depth > 0 ? ` (depth ${depth})` : ''}`);
 
-    // Extract both files and subfolders
-    const items = await this.extractItems(this.page!);
+    const items = await this.loadFolder(folderUrl);
 
-    console.log(`${indent}Found ${items.files.length} files and ${items.folders.length} subfolders`);
+    log.debug(`${indent}Found ${items.files.length} files and ${items.folders.length} subfolders`);
 
     const allResults: DownloadResult[] = [];
     let fileCounter = 1;
 
     // Download files in current folder
     for (const file of items.files) {
-      console.log(`${indent}Downloading file ${fileCounter}/${items.files.length}: ${file.name}...`);
+      log.debug(`${indent}Downloading file ${fileCounter}/${items.files.length}: ${file.name}...`);
       fileCounter++;
 
       // Extract file ID from URL
       const fileIdMatch = file.url.match(/\/d\/([^\/\?]+)/);
       if (!fileIdMatch) {
-        console.log(`${indent}✗ Could not extract file ID from URL: ${file.url}`);
+        log.warn(`${indent}✗ Could not extract file ID from URL: ${file.url}`);
         allResults.push({
           status: 'failed',
           url: file.url,
@@ -160,6 +158,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
 
       try {
         // Use Playwright's authenticated request context with increased timeout
+        await throttle('google');
         const response = await this.page!.request.get(directDownloadUrl, { timeout: 120000 });
 
         if (response.ok()) {
@@ -172,7 +171,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
           const stats = await fs.stat(filePath);
           const fileSize = stats.size;
 
-          console.log(`${indent}✓ Downloaded: ${filename} (${this.formatBytes(fileSize)})`);
+          log.debug(`${indent}✓ Downloaded: ${filename} (${this.formatBytes(fileSize)})`);
 
           allResults.push({
             status: 'success',
@@ -186,7 +185,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
           throw new Error(`HTTP ${response.status()}: ${response.statusText()}`);
         }
       } catch (error: any) {
-        console.log(`${indent}✗ Failed to download ${file.name}: ${error.message}`);
+        log.warn(`${indent}✗ Failed to download ${file.name}: ${error.message}`);
         allResults.push({
           status: 'failed',
           url: file.url,
@@ -198,7 +197,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
     // Recursively process subfolders
     for (const folder of items.folders) {
       const subFolderPath = folderPath ? `${folderPath}/${folder.name}` : folder.name;
-      console.log(`${indent}📂 Entering subfolder: ${folder.name}`);
+      log.debug(`${indent}📂 Entering subfolder: ${folder.name}`);
 
       try {
         const subResults = await this.downloadFolderRecursively(
@@ -209,13 +208,40 @@ export class GoogleDriveFolderDownloader implements Downloader {
         );
         allResults.push(...subResults);
       } catch (error: any) {
-        console.log(`${indent}✗ Failed to process subfolder ${folder.name}: ${error.message}`);
+        log.warn(`${indent}✗ Failed to process subfolder ${folder.name}: ${error.message}`);
       }
     }
 
     return allResults;
   }
 
+  /**
+   * Open a folder page and extract its files and subfolders
+   * In record mode the page is recorded as loaded, before any downloads
+   * @param folderUrl URL of the folder
+   */
+  private async loadFolder(folderUrl: string) {
+    const folderId = folderUrl.match(/\/folders\/([\w-]+)/)?.[1] || 'folder';
+    const recording = await startRecording(this.page!, `gallery-google-drive-${folderId}`);
+
+    try {
+      // Navigate to the folder
+      await throttle('google');
+      await this.page!.goto(folderUrl, { waitUntil: 'networkidle', timeout: 60000 });
+
+      // Wait for files to load
+      await sleep(3000);
+
+      // Scroll to load all items
+      await this.scrollToLoadAll(this.page!);
+
+      // Extract both files and subfolders
+      return await this.extractItems(this.page!);
+    } finally {
+      await recording.finish();
+    }
+  }
+
   private formatBytes(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -229,18 +255,18 @@ export class GoogleDriveFolderDownloader implements Downloader {
    * Similar to Google Photos downloader approach - uses mouse wheel events
    */
   private async scrollToLoadAll(page: Page) {
-    console.log('🔄 Starting progressive scroll to load all items...');
+    log.debug('🔄 Starting progressive scroll to load all items...');
 
     // Try to find and hover over the scrollable container
     // Google Drive typically uses [role="main"] as the scrollable area
     const scrollableSelector = '[role="main"]';
     try {
       await page.waitForSelector(scrollableSelector, { timeout: 5000 });
-      console.log(`  🔍 Found scrollable container: ${scrollableSelector}`);
+      log.debug(`  🔍 Found scrollable container: ${scrollableSelector}`);
       await page.hover(scrollableSelector);
       await sleep(500);
     } catch (error) {
-      console.log(`  ⚠️ Could not find scrollable container. Scrolling may be unreliable.`);
+      log.warn(`  ⚠️ Could not find scrollable container. Scrolling may be unreliable.`);
     }
 
     const allItemIds = new Set<string>();
@@ -248,7 +274,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
     const maxScrollAttempts = 1000;
     const scrollDelay = 2000; // 2 seconds between scrolls
     let noNewItemsCount = 0;
-    const requiredConsecutiveNoNew = 25; // Require 25 scrolls with no new items before stopping
+    const requiredConsecutiveNoNew = this.performance.galleryIdleScrolls; // Scrolls with no new items before stopping
 
     while (scrollAttempts < maxScrollAttempts) {
       const sizeBefore = allItemIds.size;
@@ -281,14 +307,14 @@ export class GoogleDriveFolderDownloader implements Downloader {
       const newCount = allItemIds.size - sizeBefore;
 
       if (newCount > 0) {
-        console.log(`  [Scroll ${scrollAttempts + 1}] +${newCount} new items → Total: ${allItemIds.size} unique`);
+        log.debug(`  [Scroll ${scrollAttempts + 1}] +${newCount} new items → Total: ${allItemIds.size} unique`);
         noNewItemsCount = 0;
       } else {
         noNewItemsCount++;
-        console.log(`  [Scroll ${scrollAttempts + 1}] No new items found (${noNewItemsCount}/${requiredConsecutiveNoNew})`);
+        log.debug(`  [Scroll ${scrollAttempts + 1}] No new items found (${noNewItemsCount}/${requiredConsecutiveNoNew})`);
 
         if (noNewItemsCount >= requiredConsecutiveNoNew) {
-          console.log(`\n  ✅ No new items for ${noNewItemsCount} scrolls - reached end!`);
+          log.debug(`\n  ✅ No new items for ${noNewItemsCount} scrolls - reached end!`);
           break;
         }
       }
@@ -307,7 +333,7 @@ export class GoogleDriveFolderDownloader implements Downloader {
       scrollAttempts++;
     }
 
-    console.log(`\n✅ Scrolling complete. Found ${allItemIds.size} total unique items after ${scrollAttempts} scrolls.`);
+    log.info(`\n✅ Scrolling complete. Found ${allItemIds.size} total unique items after ${scrollAttempts} scrolls.`);
   }
 
   /**
@@ -488,9 +514,9 @@ export class GoogleDriveFolderDownloader implements Downloader {
 
     // Log debug info
     if (items.debugInfo && items.debugInfo.length > 0) {
-      console.log('\n=== DEBUG: Item Detection ===');
-      items.debugInfo.forEach(line => console.log(line));
-      console.log('=== END DEBUG ===\n');
+      log.debug('\n=== DEBUG: Item Detection ===');
+      items.debugInfo.forEach(line => log.debug(line));
+      log.debug('=== END DEBUG ===\n');
     }
 
     return items;
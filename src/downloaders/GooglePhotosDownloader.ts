@@ -6,18 +6,28 @@
  */
 
 import pLimit from 'p-limit';
-import { Downloader, DownloadContext, DownloadResult } from '../types.js';
+import { createLogger } from '../logger.js';
+import { DEFAULT_PERFORMANCE } from '../config.js';
+import { throttle } from '../rate-limiter.js';
+import { Downloader, DownloadContext, DownloadResult, PerformanceConfig } from '../types.js';
 import { Page } from 'playwright';
 import { downloadMedia } from '../downloader.js';
 import { sleep, parseTimestamp } from '../utils.js';
 import { getMediaFilePath } from '../file-organizer.js';
+import { getDebugFilePath } from '../state-dir.js';
+import { trackGalleryScroll } from '../progress-dashboard.js';
+import { startRecording } from '../recorder.js';
 import { extname } from 'path';
 
+const log = createLogger('google-photos');
+
 export class GooglePhotosDownloader implements Downloader {
   private page: Page | null = null;
+  private performance: Required<PerformanceConfig>;
 
-  constructor(page?: Page) {
+  constructor(page?: Page, performance: Required<PerformanceConfig> = DEFAULT_PERFORMANCE) {
     this.page = page || null;
+    this.performance = performance;
   }
 
   setPage(page: Page) {
@@ -39,20 +49,23 @@ export class GooglePhotosDownloader implements Downloader {
       return [{ status: 'failed', url, error: 'No Playwright page provided' }];
     }
 
+    const recording = await startRecording(this.page, `gallery-google-photos-${url.split('/').filter(Boolean).pop()}`);
+
     try {
-      console.log(`Extracting media from Google Photos album: ${url}`);
+      log.info(`Extracting media from Google Photos album: ${url}`);
+      await throttle('google');
       await this.page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
       await sleep(3000);
 
-      console.log('🔄 Starting progressive scroll to load all media...');
+      log.debug('🔄 Starting progressive scroll to load all media...');
       const scrollableSelector = '[jsrenderer="x3Fdbb"]';
 
       try {
         await this.page.waitForSelector(scrollableSelector, { timeout: 10000 });
-        console.log(`  🔍 Found scrollable container: ${scrollableSelector}`);
+        log.debug(`  🔍 Found scrollable container: ${scrollableSelector}`);
         await this.page.hover(scrollableSelector);
       } catch (error) {
-        console.log(`  ⚠️ Could not find scrollable container. Scrolling may be unreliable.`);
+        log.warn(`  ⚠️ Could not find scrollable container. Scrolling may be unreliable.`);
       }
 
       const allMedia = new Map<string, 'image' | 'video'>();
@@ -60,57 +73,63 @@ export class GooglePhotosDownloader implements Downloader {
       const maxScrollAttempts = 1000;
       const scrollDelay = 2000;
       let noNewMediaCount = 0;
-      const requiredConsecutiveNoNew = 25;
-
-      while (scrollAttempts < maxScrollAttempts) {
-        const sizeBefore = allMedia.size;
-
-        const mediaInView = await this.page.evaluate(() => {
-          const media: {url: string, type: 'image' | 'video'}[] = [];
-          document.querySelectorAll('.rtIMgb').forEach(itemEl => {
-            const linkEl = itemEl.querySelector('a.p137Zd');
-            const styleEl = itemEl.querySelector('div[style*="background-image"]');
-
-            if (linkEl && styleEl) {
-              const ariaLabel = linkEl.getAttribute('aria-label') || '';
-              const style = (styleEl as HTMLElement).style.backgroundImage;
-              const match = style.match(/url\(['"]?(.*?)['"]?\)/);
-
-              if (match && match[1] && match[1].includes('googleusercontent.com')) {
-                const url = match[1];
-                const type = ariaLabel.toLowerCase().includes('video') ? 'video' : 'image';
-                media.push({ url, type });
+      const requiredConsecutiveNoNew = this.performance.galleryIdleScrolls;
+      const scrollProgress = trackGalleryScroll(`Google Photos album ${context.linkName || url}`);
+
+      try {
+        while (scrollAttempts < maxScrollAttempts) {
+          const sizeBefore = allMedia.size;
+
+          const mediaInView = await this.page.evaluate(() => {
+            const media: {url: string, type: 'image' | 'video'}[] = [];
+            document.querySelectorAll('.rtIMgb').forEach(itemEl => {
+              const linkEl = itemEl.querySelector('a.p137Zd');
+              const styleEl = itemEl.querySelector('div[style*="background-image"]');
+
+              if (linkEl && styleEl) {
+                const ariaLabel = linkEl.getAttribute('aria-label') || '';
+                const style = (styleEl as HTMLElement).style.backgroundImage;
+                const match = style.match(/url\(['"]?(.*?)['"]?\)/);
+
+                if (match && match[1] && match[1].includes('googleusercontent.com')) {
+                  const url = match[1];
+                  const type = ariaLabel.toLowerCase().includes('video') ? 'video' : 'image';
+                  media.push({ url, type });
+                }
               }
+            });
+            return media;
+          });
+
+          mediaInView.forEach(m => {
+            if (!allMedia.has(m.url)) {
+              allMedia.set(m.url, m.type);
             }
           });
-          return media;
-        });
 
-        mediaInView.forEach(m => {
-          if (!allMedia.has(m.url)) {
-            allMedia.set(m.url, m.type);
-          }
-        });
+          const newCount = allMedia.size - sizeBefore;
 
-        const newCount = allMedia.size - sizeBefore;
-
-        if (newCount > 0) {
-          console.log(`  [Scroll ${scrollAttempts + 1}] +${newCount} new media → Total: ${allMedia.size} unique`);
-          noNewMediaCount = 0;
-        } else {
-          noNewMediaCount++;
-          console.log(`  [Scroll ${scrollAttempts + 1}] No new media found (${noNewMediaCount}/${requiredConsecutiveNoNew})`);
-          if (noNewMediaCount >= requiredConsecutiveNoNew) {
-            console.log(`\n  ✅ No new media for ${noNewMediaCount} scrolls - reached end!`);
-            break;
+          if (newCount > 0) {
+            log.debug(`  [Scroll ${scrollAttempts + 1}] +${newCount} new media → Total: ${allMedia.size} unique`);
+            noNewMediaCount = 0;
+          } else {
+            noNewMediaCount++;
+            log.debug(`  [Scroll ${scrollAttempts + 1}] No new media found (${noNewMediaCount}/${requiredConsecutiveNoNew})`);
+            if (noNewMediaCount >= requiredConsecutiveNoNew) {
+              log.debug(`\n  ✅ No new media for ${noNewMediaCount} scrolls - reached end!`);
+              break;
+            }
           }
-        }
+          scrollProgress.update(allMedia.size, scrollAttempts + 1, noNewMediaCount, requiredConsecutiveNoNew);
 
-        await this.page.mouse.wheel(0, 1000); // Gentle scroll
-        await sleep(scrollDelay);
-        scrollAttempts++;
+          await this.page.mouse.wheel(0, 1000); // Gentle scroll
+          await sleep(scrollDelay);
+          scrollAttempts++;
+        }
+      } finally {
+        scrollProgress.done();
       }
-      console.log(`\n✅ Scrolling complete. Found ${allMedia.size} total media items.`);
+      log.info(`\n✅ Scrolling complete. Found ${allMedia.size} total media items.`);
 
       const mediaUrls = Array.from(allMedia.entries()).map(([u, type]) => {
         const baseUrl = u.split('=')[0];
@@ -120,19 +139,20 @@ export class GooglePhotosDownloader implements Downloader {
         };
       });
 
-      console.log(`Found ${mediaUrls.length} unique media items after processing.`);
+      log.debug(`Found ${mediaUrls.length} unique media items after processing.`);
 
       if (mediaUrls.length === 0) {
         const html = await this.page.content();
-        const debugFile = `debug-google-photos-no-media-${Date.now()}.html`;
+        const debugFile = await getDebugFilePath(context.baseDir || context.outputDir, `debug-google-photos-no-media-${Date.now()}.html`);
         const fs = await import('fs/promises');
         await fs.writeFile(debugFile, html);
-        console.log(`  📄 Saved empty page HTML to: ${debugFile}`);
+        log.info(`  📄 Saved empty page HTML to: ${debugFile}`);
         return [{ status: 'failed', url, error: 'No media found in album after scrolling.' }];
       }
 
-      console.log(`\n📥 Starting parallel download of ${mediaUrls.length} items (concurrency: 5)...`);
-      const limit = pLimit(10);
+      const concurrency = this.performance.galleryDownloads;
+      log.info(`\n📥 Starting parallel download of ${mediaUrls.length} items (concurrency: ${concurrency})...`);
+      const limit = pLimit(concurrency);
       const downloadPromises = mediaUrls.map((media, i) => {
         return limit(async () => {
           const filename = this.generateFilename(context, i, media.type);
@@ -141,13 +161,13 @@ export class GooglePhotosDownloader implements Downloader {
           const baseDir = context.baseDir || context.outputDir;
           const filePath = getMediaFilePath(baseDir, context.post, filename);
 
-          console.log(`  [${i + 1}/${mediaUrls.length}] Downloading ${media.type}: ${filename}`);
+          log.debug(`  [${i + 1}/${mediaUrls.length}] Downloading ${media.type}: ${filename}`);
           const result = await downloadMedia(media.url, filePath, { maxRetries: 3, timeout: 45000 });
 
           if (result.status === 'success') {
             return { status: 'success' as const, url: media.url, localPath: filePath, filename, size: result.size, sourceAlbum: url };
           } else {
-            console.log(`  ✗ [${i + 1}/${mediaUrls.length}] Failed to download ${filename}: ${result.error}`);
+            log.warn(`  ✗ [${i + 1}/${mediaUrls.length}] Failed to download ${filename}: ${result.error}`);
             return { status: 'failed' as const, url: media.url, error: result.error, sourceAlbum: url };
           }
         });
@@ -157,8 +177,10 @@ export class GooglePhotosDownloader implements Downloader {
       return results;
 
     } catch (error: any) {
-      console.error(`Failed to extract from Google Photos album: ${error.message}`);
+      log.warn(`Failed to extract from Google Photos album: ${error.message}`);
       return [{ status: 'failed', url, error: error.message }];
+    } finally {
+      await recording.finish();
     }
   }
 
@@ -4,14 +4,37 @@
  * Automatically selects the appropriate exporter based on configuration
  */
 
-import { Exporter, Config } from '../types.js';
+import { Exporter, Config, OutputFormat } from '../types.js';
 import { MarkdownExporter } from './MarkdownExporter.js';
 import { HtmlExporter } from './HtmlExporter.js';
 
 export class ExporterFactory {
+  /**
+   * Get the exporter for the first configured output format
+   */
   static getExporter(config: Config): Exporter {
-    const format = config.outputFormat || 'markdown';
+    return ExporterFactory.getExporters(config)[0];
+  }
+
+  /**
+   * Get one exporter per configured output format (duplicates removed)
+   */
+  static getExporters(config: Config): Exporter[] {
+    const formats = ExporterFactory.getFormats(config);
+    return formats.map(format => ExporterFactory.getExporterForFormat(format));
+  }
+
+  /**
+   * Normalize config.outputFormat to a list of formats
+   */
+  static getFormats(config: Config): OutputFormat[] {
+    const configured = config.outputFormat || 'markdown';
+    const formats = Array.isArray(configured) ? configured : [configured];
+    const unique = Array.from(new Set(formats));
+    return unique.length > 0 ? unique : ['markdown'];
+  }
 
+  static getExporterForFormat(format: OutputFormat): Exporter {
     switch (format) {
       case 'html':
         return new HtmlExporter();
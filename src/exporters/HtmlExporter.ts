@@ -5,21 +5,24 @@
  * Preserves contentStyles from scraper for rich formatting
  */
 
-import { Exporter, Post, MediaInfo, Config } from '../types.js';
+import { Exporter, Post, Comment, MediaInfo, Config } from '../types.js';
 import { writeFile } from 'fs/promises';
-import { resolve } from 'path';
+import { join } from 'path';
+import { generatePostFilename } from '../file-organizer.js';
+import { sanitizeHtml } from '../html-sanitizer.js';
 
 export class HtmlExporter implements Exporter {
   getExtension(): string {
     return 'html';
   }
 
-  async export(post: Post, media: MediaInfo[], outputDir: string, config: Config): Promise<void> {
+  async export(post: Post, media: MediaInfo[], outputDir: string, config: Config): Promise<string> {
     const html = this.generateHtml(post, media);
-    const filename = this.generateFilename(post);
-    const filePath = resolve(outputDir, 'Messages', filename);
+    const filename = `${generatePostFilename(post)}.${this.getExtension()}`;
+    const filePath = join(outputDir, 'Messages', filename);
 
     await writeFile(filePath, html, 'utf-8');
+    return filePath;
   }
 
   private generateHtml(post: Post, media: MediaInfo[]): string {
@@ -32,10 +35,15 @@ export class HtmlExporter implements Exporter {
       contentStyles = '',
       likes,
       comments = [],
-      externalLinks = []
+      externalLinks = [],
+      likedBy = [],
+      polls = [],
+      readConfirmation
     } = post;
 
-    const images = media.filter(m => m.type === 'image');
+    const images = media.filter(m => m.type === 'image' && !m.commentImage);
+    // Comment images are shown with their comment (source URL -> local file)
+    const commentImages = new Map(media.filter(m => m.commentImage).map(m => [m.originalUrl, m.relativePath]));
     const videos = media.filter(m => m.type === 'video');
     const documents = media.filter(m => m.type === 'document');
 
@@ -171,6 +179,55 @@ export class HtmlExporter implements Exporter {
       text-decoration: underline;
     }
 
+    /* Polls */
+    .poll-meta {
+      font-size: 14px;
+      color: #666;
+      margin-bottom: 10px;
+    }
+
+    .poll-option {
+      position: relative;
+      padding: 8px 12px;
+      margin-bottom: 8px;
+      background: #f8f9fa;
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .poll-option-bar {
+      position: absolute;
+      top: 0;
+      left: 0;
+      bottom: 0;
+      background: rgba(102, 126, 234, 0.15);
+    }
+
+    .poll-option-label {
+      position: relative;
+      display: flex;
+      justify-content: space-between;
+    }
+
+    .poll-option.selected .poll-option-label {
+      font-weight: 600;
+    }
+
+    .poll-voters {
+      position: relative;
+      font-size: 13px;
+      color: #666;
+      margin-top: 4px;
+    }
+
+    /* Read confirmation and likes */
+    .read-confirmation,
+    .liked-by {
+      padding: 10px;
+      background: #f8f9fa;
+      border-radius: 4px;
+    }
+
     /* Comments */
     .comment {
       padding: 15px;
@@ -201,6 +258,19 @@ export class HtmlExporter implements Exporter {
       color: #666;
     }
 
+    .comment-text img,
+    .reply-text img,
+    .comment-images img {
+      max-width: 100%;
+      max-height: 300px;
+      border-radius: 4px;
+    }
+
+    .comment-text a,
+    .reply-text a {
+      color: #667eea;
+    }
+
     .replies {
       margin-top: 15px;
       margin-left: 20px;
@@ -292,7 +362,7 @@ export class HtmlExporter implements Exporter {
         <ul class="links-list">
           ${documents.map(doc => `
             <li>
-              <a href="${doc.relativePath}" target="_blank">${this.escapeHtml(doc.fileName)}</a>
+              <a href="${doc.relativePath}" target="_blank">${this.escapeHtml(doc.sourceName || doc.fileName)}</a>
             </li>
           `).join('')}
         </ul>
@@ -314,6 +384,46 @@ export class HtmlExporter implements Exporter {
       </div>
       ` : ''}
 
+      ${polls.map(poll => `
+      <div class="section">
+        <h2 class="section-title">📊 Encuesta: ${this.escapeHtml(poll.question || 'Sin título')}</h2>
+        <div class="poll-meta">
+          ${poll.closed ? 'Cerrada' : 'Abierta'} · ${poll.multipleChoice ? 'Varias opciones' : 'Una opción'} · ${poll.totalVotes} votos
+        </div>
+        ${poll.options.map(option => `
+          <div class="poll-option${option.selected ? ' selected' : ''}">
+            <div class="poll-option-bar" style="width: ${poll.totalVotes > 0 ? Math.round(option.votes / poll.totalVotes * 100) : 0}%"></div>
+            <div class="poll-option-label">
+              <span>${this.escapeHtml(option.text)}${option.selected ? ' ✓' : ''}</span>
+              <span>${option.votes}</span>
+            </div>
+            ${option.voters.length > 0 ? `<div class="poll-voters">${this.escapeHtml(option.voters.join(', '))}</div>` : ''}
+          </div>
+        `).join('')}
+      </div>
+      `).join('')}
+
+      ${readConfirmation ? `
+      <div class="section">
+        <h2 class="section-title">✅ Confirmación de lectura</h2>
+        <div class="read-confirmation">
+          ${readConfirmation.confirmed
+            ? `Lectura confirmada${readConfirmation.confirmedAt ? ` el ${this.escapeHtml(readConfirmation.confirmedAt)}` : ''}`
+            : 'Lectura sin confirmar'}
+          ${readConfirmation.readCount !== undefined && readConfirmation.recipientsCount !== undefined
+            ? ` · Leído por ${readConfirmation.readCount} de ${readConfirmation.recipientsCount}`
+            : ''}
+        </div>
+      </div>
+      ` : ''}
+
+      ${likedBy.length > 0 ? `
+      <div class="section">
+        <h2 class="section-title">❤️ Les gusta (${likedBy.length})</h2>
+        <div class="liked-by">${this.escapeHtml(likedBy.join(', '))}</div>
+      </div>
+      ` : ''}
+
       ${comments.length > 0 ? `
       <div class="section">
         <h2 class="section-title">💬 Comentarios (${comments.length})</h2>
@@ -321,20 +431,9 @@ export class HtmlExporter implements Exporter {
           <div class="comment">
             <div class="comment-author">${this.escapeHtml(comment.author)}</div>
             <div class="comment-timestamp">${this.escapeHtml(comment.timestamp)}</div>
-            <div class="comment-text">${this.escapeHtml(comment.text)}</div>
+            <div class="comment-text">${this.renderCommentBody(comment, commentImages)}</div>
             ${comment.likes > 0 ? `<div class="comment-likes">👍 ${comment.likes} likes</div>` : ''}
-
-            ${comment.replies && comment.replies.length > 0 ? `
-              <div class="replies">
-                ${comment.replies.map(reply => `
-                  <div class="reply">
-                    <div class="reply-author">${this.escapeHtml(reply.author)} <span class="comment-timestamp">${this.escapeHtml(reply.timestamp)}</span></div>
-                    <div class="reply-text">${this.escapeHtml(reply.text)}</div>
-                    ${reply.likes > 0 ? `<div class="comment-likes">👍 ${reply.likes} likes</div>` : ''}
-                  </div>
-                `).join('')}
-              </div>
-            ` : ''}
+            ${this.renderReplies(comment.replies || [], commentImages)}
           </div>
         `).join('')}
       </div>
@@ -349,6 +448,46 @@ export class HtmlExporter implements Exporter {
 </html>`;
   }
 
+  /**
+   * Replies to a comment, each with its own replies nested inside (to any depth)
+   */
+  private renderReplies(replies: Comment[], commentImages: Map<string, string>): string {
+    if (replies.length === 0) {
+      return '';
+    }
+
+    return `
+              <div class="replies">
+                ${replies.map(reply => `
+                  <div class="reply">
+                    <div class="reply-author">${this.escapeHtml(reply.author)} <span class="comment-timestamp">${this.escapeHtml(reply.timestamp)}</span></div>
+                    <div class="reply-text">${this.renderCommentBody(reply, commentImages)}</div>
+                    ${reply.likes > 0 ? `<div class="comment-likes">👍 ${reply.likes} likes</div>` : ''}
+                    ${this.renderReplies(reply.replies || [], commentImages)}
+                  </div>
+                `).join('')}
+              </div>
+            `;
+  }
+
+  /**
+   * Comment body as Handing showed it, sanitized against an allowlist (comments saved before
+   * HTML was kept only have text), followed by the pictures attached to the comment: the
+   * downloaded copy, or the Handing URL when the download failed
+   */
+  private renderCommentBody(comment: Comment, commentImages: Map<string, string>): string {
+    const body = comment.html ? sanitizeHtml(comment.html) : this.escapeHtml(comment.text);
+    const images = comment.images || [];
+    if (images.length === 0) {
+      return body;
+    }
+
+    return `${body}
+      <div class="comment-images">
+        ${images.map(url => `<img src="${this.escapeHtml(commentImages.get(url) || url)}" alt="" loading="lazy">`).join('')}
+      </div>`;
+  }
+
   private escapeHtml(text: string): string {
     const map: Record<string, string> = {
       '&': '&amp;',
@@ -357,26 +496,6 @@ export class HtmlExporter implements Exporter {
       '"': '&quot;',
       "'": '&#039;'
     };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
-  }
-
-  private generateFilename(post: Post): string {
-    const date = new Date(post.timestamp);
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hour = String(date.getHours()).padStart(2, '0');
-    const minute = String(date.getMinutes()).padStart(2, '0');
-
-    const timestamp = `${month}-${day}-${hour}-${minute}`;
-
-    if (post.title) {
-      const sanitized = post.title
-        .replace(/[^a-zA-Z0-9\s-]/g, '')
-        .replace(/\s+/g, '-')
-        .substring(0, 50);
-      return `${timestamp}-${sanitized}.html`;
-    }
-
-    return `${timestamp}.html`;
+    return (text || '').replace(/[&<>"']/g, (m) => map[m]);
   }
 }
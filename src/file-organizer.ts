@@ -4,8 +4,8 @@
  * Manages directory structure and file paths
  */
 
-import { mkdir } from 'fs/promises';
-import { join, resolve } from 'path';
+import { mkdir, rename, access } from 'fs/promises';
+import { join, resolve, dirname, basename, extname } from 'path';
 import { sanitizeFilename, parseTimestamp } from './utils.js';
 
 /**
@@ -90,6 +90,18 @@ function detectFileType(filename) {
   return 'External_Files';  // PDFs, docs, etc.
 }
 
+/**
+ * Get the exporter media type for a downloaded file (from its extension)
+ * @param {string} filename - Filename with extension
+ * @returns {'image' | 'video' | 'document'} Media type
+ */
+export function getMediaType(filename): 'image' | 'video' | 'document' {
+  const dirType = detectFileType(filename);
+  if (dirType === 'Images') return 'image';
+  if (dirType === 'Videos') return 'video';
+  return 'document';
+}
+
 /**
  * Generate file path for media (auto-detects type from extension if not specified)
  * @param {string} baseDir - Base output directory
@@ -164,6 +176,30 @@ export function getExternalLinksFilePath(baseDir, post, filename) {
   );
 }
 
+/**
+ * Generate file path for the JSON snapshot of an extracted post (used to re-export offline)
+ * @param {string} baseDir - Base output directory
+ * @param {Object} post - Post data object
+ * @param {string} filename - Snapshot filename
+ * @returns {string} Full file path
+ */
+export function getPostDataFilePath(baseDir, post, filename) {
+  const date = parseTimestamp(post.timestamp);
+  const year = date.getFullYear();
+  const month = getMonthName(date);
+
+  return join(
+    baseDir,
+    String(year),
+    'Mis Grupos',
+    post.groupName,
+    month,
+    'Messages',
+    '_data',
+    filename
+  );
+}
+
 /**
  * Generate filename for downloaded external file
  * @param {Object} post - Post data object
@@ -209,6 +245,27 @@ export function getMonthlyIndexPath(baseDir, year, groupName, monthName) {
   );
 }
 
+/**
+ * Generate file path for a group's index (one per year)
+ * @param {string} baseDir - Base output directory
+ * @param {string} year - Year
+ * @param {string} groupName - Group name
+ * @returns {string} Full file path
+ */
+export function getGroupIndexPath(baseDir, year, groupName) {
+  return join(baseDir, year, 'Mis Grupos', groupName, '_index.md');
+}
+
+/**
+ * Generate file path for a year's index
+ * @param {string} baseDir - Base output directory
+ * @param {string} year - Year
+ * @returns {string} Full file path
+ */
+export function getYearIndexPath(baseDir, year) {
+  return join(baseDir, year, '_index.md');
+}
+
 /**
  * Generate file path for top-level index
  * @param {string} baseDir - Base output directory
@@ -334,13 +391,39 @@ export function getRelativeExternalLinksPath(filename) {
  * Create directory structure for a post
  * @param {string} baseDir - Base output directory
  * @param {Object} post - Post data object
+ * @returns {Promise<Object>} Object with directory paths (root is the month folder)
  */
 export async function createPostDirectories(baseDir, post) {
   const date = parseTimestamp(post.timestamp);
   const year = date.getFullYear();
   const month = getMonthName(date);
 
-  await createMonthStructure(baseDir, String(year), post.groupName, month);
+  return await createMonthStructure(baseDir, String(year), post.groupName, month);
+}
+
+/**
+ * Move a previously rendered post into the Messages/_history folder
+ * @param {string} filePath - Rendered post file (markdown or html)
+ * @param {string} archivedAt - ISO timestamp used to name the archived copy
+ * @returns {Promise<string|null>} Archived file path, or null if the file did not exist
+ */
+export async function archivePreviousVersion(filePath: string, archivedAt: string): Promise<string | null> {
+  try {
+    await access(filePath);
+  } catch {
+    return null;
+  }
+
+  const historyDir = join(dirname(filePath), '_history');
+  await mkdir(historyDir, { recursive: true });
+
+  const extension = extname(filePath);
+  const name = basename(filePath, extension);
+  const stamp = archivedAt.replace(/[:.]/g, '-');
+  const archivedPath = join(historyDir, `${name}.${stamp}${extension}`);
+
+  await rename(filePath, archivedPath);
+  return archivedPath;
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * HTML Sanitizer
+ *
+ * Allowlist sanitizer for HTML scraped from Handing (comments) before it is written into
+ * the exported pages: only known formatting tags and attributes are kept, and links and
+ * images only with http(s) or relative URLs. Everything else is dropped; the text inside
+ * dropped tags is kept, except for elements whose content is code or not shown
+ */
+
+// Allowed tags and their attributes
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  b: [], strong: [], i: [], em: [], u: [], s: [], strike: [], del: [], small: [], sub: [], sup: [],
+  br: [], p: [], div: [], span: [], blockquote: [], code: [], pre: [],
+  ul: [], ol: [], li: [], h1: [], h2: [], h3: [], h4: [], h5: [], h6: []
+};
+const URL_ATTRIBUTES = ['href', 'src'];
+const VOID_TAGS = ['br', 'img'];
+// Dropped together with their content
+const DROPPED_WITH_CONTENT = ['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'textarea', 'title', 'svg', 'math'];
+
+// A tag, with quoted attribute values that may contain '>'
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+// One attribute; '/' separates attributes like whitespace does (<img/src=x/onerror=...>)
+const ATTRIBUTE_PATTERN = /([^\s\/>"'=]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', colon: ':', tab: '\t', newline: '\n'
+};
+
+/**
+ * Sanitize HTML against the allowlist
+ * @param {string} html - HTML scraped from Handing
+ * @returns {string} HTML with only allowed tags, attributes and URLs
+ */
+export function sanitizeHtml(html: string): string {
+  // Comments, doctypes and processing instructions are never kept
+  const source = html.replace(/<!--[\s\S]*?(-->|$)/g, '').replace(/<[!?][^>]*>/g, '');
+  let output = '';
+  let position = 0;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    output += escapeStrayBrackets(source.slice(position, match.index));
+    position = TAG_PATTERN.lastIndex;
+
+    const [, closing, rawName, rawAttributes] = match;
+    const name = rawName.toLowerCase();
+
+    if (DROPPED_WITH_CONTENT.includes(name)) {
+      if (!closing) {
+        // Skip to the end of the element (or of the input, if it is never closed)
+        const end = new RegExp(`</${name}\\s*>`, 'gi');
+        end.lastIndex = position;
+        position = end.exec(source) ? end.lastIndex : source.length;
+        TAG_PATTERN.lastIndex = position;
+      }
+      continue;
+    }
+    if (!(name in ALLOWED_TAGS)) {
+      continue;
+    }
+
+    if (closing) {
+      if (!VOID_TAGS.includes(name)) {
+        output += `</${name}>`;
+      }
+      continue;
+    }
+    output += `<${name}${sanitizeAttributes(name, rawAttributes)}>`;
+  }
+
+  return output + escapeStrayBrackets(source.slice(position));
+}
+
+function sanitizeAttributes(tag: string, rawAttributes: string): string {
+  let attributes = '';
+
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(rawAttributes)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!ALLOWED_TAGS[tag].includes(name) || match[2] === undefined) {
+      continue;
+    }
+
+    const value = decodeEntities(match[2].replace(/^(["'])([\s\S]*)\1$/, '$2'));
+    if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value)) {
+      continue;
+    }
+    attributes += ` ${name}="${escapeAttribute(value)}"`;
+  }
+
+  return attributes;
+}
+
+/**
+ * Only http(s) and relative URLs: anything else with a scheme (javascript:, data:, vbscript:, ...) is not
+ * Entities are decoded first, and whitespace and control characters browsers ignore are removed
+ */
+function isSafeUrl(url: string): boolean {
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (/^https?:\/\//i.test(normalized)) {
+    return true;
+  }
+  // Relative: no ':' before the path, query or fragment (a leftover entity cannot hide a scheme either)
+  return !/^[^\/?#]*:/.test(normalized);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);?/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeStrayBrackets(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,159 @@
+/**
+ * Index Generation Module
+ *
+ * Rebuilds the _index.md navigation files (month, group, year, top-level)
+ * from the manifest and the archive on disk, so indexes cover every run
+ */
+
+import { readdir } from 'fs/promises';
+import { join, relative, sep, basename } from 'path';
+import {
+  getMonthlyIndexPath,
+  getGroupIndexPath,
+  getYearIndexPath,
+  getTopLevelIndexPath
+} from './file-organizer.js';
+import {
+  generateMonthlyIndexMarkdown,
+  generateGroupIndexMarkdown,
+  generateYearIndexMarkdown,
+  generateTopLevelIndexMarkdown,
+  writeMarkdownFile
+} from './markdown-writer.js';
+
+/**
+ * Rebuild month and group indexes for one group from its manifest
+ * @param {Object} config - Configuration object
+ * @param {string} groupName - Group name
+ * @param {Object} manifest - Group manifest
+ * @returns {Promise<number>} Number of index files written
+ */
+export async function rebuildGroupIndexes(config, groupName, manifest): Promise<number> {
+  if (!config.filesystem?.generateMonthlyIndex) {
+    return 0;
+  }
+
+  // year -> month folder -> index entries
+  const years = new Map<string, Map<string, any[]>>();
+
+  for (const post of Object.values(manifest.posts) as any[]) {
+    if (!post.markdown_path || post.status === 'failed') continue;
+
+    const location = getPostLocation(config.outputDir, post.markdown_path);
+    if (!location) continue;
+
+    if (!years.has(location.year)) {
+      years.set(location.year, new Map());
+    }
+    const months = years.get(location.year);
+    if (!months.has(location.monthName)) {
+      months.set(location.monthName, []);
+    }
+
+    months.get(location.monthName).push({
+      title: post.title,
+      timestamp: post.timestamp,
+      author: post.author,
+      filename: location.filename
+    });
+  }
+
+  let written = 0;
+
+  for (const [year, months] of years) {
+    const monthSummaries = [];
+
+    for (const monthName of Array.from(months.keys()).sort()) {
+      // Filenames start with MM-DD-HH-MM, so sorting by name is chronological
+      const entries = months.get(monthName).sort((a, b) => a.filename.localeCompare(b.filename));
+      const monthYear = `${monthName.replace(/^\d+_/, '')} ${year}`;
+
+      const markdown = generateMonthlyIndexMarkdown(groupName, monthYear, entries);
+      await writeMarkdownFile(getMonthlyIndexPath(config.outputDir, year, groupName, monthName), markdown);
+      written++;
+
+      monthSummaries.push({ monthName, postCount: entries.length });
+    }
+
+    const groupMarkdown = generateGroupIndexMarkdown(groupName, year, monthSummaries);
+    await writeMarkdownFile(getGroupIndexPath(config.outputDir, year, groupName), groupMarkdown);
+    written++;
+  }
+
+  return written;
+}
+
+/**
+ * Rebuild year indexes and the top-level index from the years and groups on disk
+ * @param {Object} config - Configuration object
+ * @returns {Promise<number>} Number of index files written
+ */
+export async function rebuildTopLevelIndexes(config): Promise<number> {
+  if (!config.filesystem?.generateTopLevelIndex) {
+    return 0;
+  }
+
+  const years = await listArchiveYears(config.outputDir);
+  let written = 0;
+
+  for (const { year, groups } of years) {
+    await writeMarkdownFile(getYearIndexPath(config.outputDir, year), generateYearIndexMarkdown(year, groups));
+    written++;
+  }
+
+  const topLevelMarkdown = generateTopLevelIndexMarkdown(years, new Date().toISOString());
+  await writeMarkdownFile(getTopLevelIndexPath(config.outputDir), topLevelMarkdown);
+  written++;
+
+  return written;
+}
+
+/**
+ * List the years in the archive with the groups found in each (newest year first)
+ * @param {string} outputDir - Base output directory
+ * @returns {Promise<Array<{year: string, groups: string[]}>>}
+ */
+async function listArchiveYears(outputDir: string): Promise<Array<{ year: string; groups: string[] }>> {
+  const entries = await readdir(outputDir, { withFileTypes: true }).catch(() => []);
+  const yearNames = entries
+    .filter(entry => entry.isDirectory() && /^\d{4}$/.test(entry.name))
+    .map(entry => entry.name)
+    .sort()
+    .reverse();
+
+  const years = [];
+  for (const year of yearNames) {
+    const groupEntries = await readdir(join(outputDir, year, 'Mis Grupos'), { withFileTypes: true }).catch(() => []);
+    const groups = groupEntries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+
+    if (groups.length > 0) {
+      years.push({ year, groups });
+    }
+  }
+
+  return years;
+}
+
+/**
+ * Derive year, month folder and filename from a rendered post path
+ * Expected layout: <outputDir>/<year>/Mis Grupos/<group>/<month>/Messages/<file>
+ * @param {string} outputDir - Base output directory
+ * @param {string} postPath - Rendered post path from the manifest
+ * @returns {{year: string, monthName: string, filename: string} | null}
+ */
+function getPostLocation(outputDir: string, postPath: string) {
+  const segments = relative(outputDir, postPath).split(sep);
+
+  if (segments.length !== 6 || segments[1] !== 'Mis Grupos' || segments[4] !== 'Messages') {
+    return null;
+  }
+
+  return {
+    year: segments[0],
+    monthName: segments[3],
+    filename: basename(postPath)
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Logging
+ *
+ * Leveled logger with one namespace per module. The console shows info and up
+ * (debug with --verbose, only warnings and errors with --quiet); the optional
+ * JSON-lines log file always keeps every entry, debug included
+ */
+
+import chalk from 'chalk';
+import { openSync, writeSync, closeSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { stripVTControlCharacters } from 'util';
+import { LogLevel, LoggingConfig } from './types.js';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+type ConsoleSink = (stream: 'stdout' | 'stderr', text: string) => void;
+
+let consoleLevel: LogLevel = 'info';
+let consoleSink: ConsoleSink | null = null;
+let logFile: { path: string; fd: number } | null = null;
+
+process.on('exit', () => closeLogFile());
+
+/**
+ * Set the console level and open (or close) the JSON-lines log file
+ * Options that are not given keep their current value
+ * @param {Object} options - { level?: console level, file?: log file path (null closes it) }
+ */
+export function configureLogging(options: { level?: LogLevel; file?: string | null }) {
+  if (options.level) {
+    consoleLevel = options.level;
+  }
+
+  if (options.file !== undefined) {
+    const path = options.file ? resolve(options.file) : null;
+    if (path !== logFile?.path) {
+      closeLogFile();
+      if (path) {
+        mkdirSync(dirname(path), { recursive: true });
+        logFile = { path, fd: openSync(path, 'a') };
+      }
+    }
+  }
+}
+
+/**
+ * Get the lowest level shown on the console
+ * @returns {LogLevel}
+ */
+export function getConsoleLevel(): LogLevel {
+  return consoleLevel;
+}
+
+/**
+ * Send console output through a sink instead of writing it directly
+ * (the progress dashboard prints log lines above itself)
+ * @param {Function|null} sink - (stream, text) => void, or null to write directly again
+ */
+export function setConsoleSink(sink: ConsoleSink | null) {
+  consoleSink = sink;
+}
+
+/**
+ * Get the log file entries are written to
+ * @returns {string|null} Absolute path, or null when file logging is off
+ */
+export function getLogFilePath(): string | null {
+  return logFile?.path || null;
+}
+
+/**
+ * Create the logger of a module
+ * @param {string} namespace - Module name written with every entry (e.g. "scraper", "google-photos")
+ * @returns {Logger}
+ */
+export function createLogger(namespace: string): Logger {
+  const logger = {} as Logger;
+  for (const level of LOG_LEVELS) {
+    logger[level] = (message, fields) => write(level, namespace, message, fields);
+  }
+  return logger;
+}
+
+/**
+ * Resolve the logging options of a run: command-line switches win over config.json
+ * @param {LoggingConfig} config - "logging" section of config.json
+ * @param {LoggingConfig} overrides - From --verbose / --quiet / --log-file
+ * @returns {LoggingConfig}
+ */
+export function resolveLogging(config: LoggingConfig = {}, overrides: LoggingConfig = {}): LoggingConfig {
+  return {
+    level: overrides.level || config.level || 'info',
+    file: overrides.file || config.file
+  };
+}
+
+function write(level: LogLevel, namespace: string, message: string, fields?: Record<string, unknown>) {
+  if (LEVEL_RANK[level] >= LEVEL_RANK[consoleLevel]) {
+    // Debug lines come from everywhere: show which module wrote them
+    const text = level === 'debug' ? prefixNamespace(namespace, message) : message;
+    const stream = level === 'warn' || level === 'error' ? 'stderr' : 'stdout';
+    if (consoleSink) {
+      consoleSink(stream, text);
+    } else if (stream === 'stderr') {
+      console.error(text);
+    } else {
+      console.log(text);
+    }
+  }
+
+  const plainMessage = stripVTControlCharacters(message).trim();
+  if (logFile && plainMessage) {
+    const entry = { time: new Date().toISOString(), level, namespace, message: plainMessage, ...fields };
+    writeSync(logFile.fd, JSON.stringify(entry) + '\n');
+  }
+}
+
+function prefixNamespace(namespace: string, message: string): string {
+  const [, breaks, text] = message.match(/^(\n*)([\s\S]*)$/);
+  return `${breaks}${chalk.dim(`[${namespace}]`)} ${text}`;
+}
+
+function closeLogFile() {
+  if (logFile) {
+    closeSync(logFile.fd);
+    logFile = null;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * JSON Manifest Store
+ *
+ * One manifest-<group>.json file per group, written atomically
+ * The previous versions are kept as .bak.1 (newest) ... .bak.3 and used when a manifest is corrupted
+ */
+
+import { readFile, readdir, rename, copyFile, mkdir } from 'fs/promises';
+import { resolve } from 'path';
+import chalk from 'chalk';
+import { getGroupSlug, writeFileAtomic } from '../utils.js';
+import { createLogger } from '../logger.js';
+import { Manifest, ManifestStore } from '../types.js';
+
+const log = createLogger('manifest');
+
+const BACKUP_COUNT = 3;
+
+export class JsonManifestStore implements ManifestStore {
+  readonly type = 'json' as const;
+
+  // Manifests already backed up by this process (backups rotate once per run, not per save)
+  private rotatedManifests = new Set<string>();
+  // Pending write per manifest path, so saves of the same manifest never interleave
+  private writeQueues = new Map<string, Promise<void>>();
+
+  /**
+   * @param {string} dir - Directory holding the manifest files (created on the first save)
+   */
+  constructor(private dir: string) {}
+
+  /**
+   * Generate manifest file path for a group
+   * @param {string} groupName - Group name
+   * @returns {string} Manifest file path
+   */
+  getManifestPath(groupName: string): string {
+    return resolve(this.dir, `manifest-${getGroupSlug(groupName)}.json`);
+  }
+
+  getLockPath(groupName: string): string {
+    return `${this.getManifestPath(groupName)}.lock`;
+  }
+
+  describe(groupName: string): string {
+    return this.getManifestPath(groupName);
+  }
+
+  async load(groupName: string): Promise<Manifest | null> {
+    const manifestPath = this.getManifestPath(groupName);
+
+    let data;
+    try {
+      data = await readFile(manifestPath, 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      // Corrupted manifest (e.g., written by an older version that was killed mid-write)
+      const backup = await this.loadNewestBackup(manifestPath);
+      if (!backup) {
+        throw new Error(`Manifest ${manifestPath} is corrupted and no backup could be read: ${error.message}`);
+      }
+      log.warn(chalk.yellow(`   ⚠ Manifest ${manifestPath} is corrupted, restored from ${backup.path}`));
+      return backup.manifest;
+    }
+  }
+
+  async save(groupName: string, manifest: Manifest): Promise<void> {
+    const manifestPath = this.getManifestPath(groupName);
+    const data = JSON.stringify(manifest, null, 2);
+
+    const previous = this.writeQueues.get(manifestPath) || Promise.resolve();
+    const write = previous.catch(() => {}).then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      if (!this.rotatedManifests.has(manifestPath)) {
+        await this.rotateBackups(manifestPath);
+        this.rotatedManifests.add(manifestPath);
+      }
+      await writeFileAtomic(manifestPath, data);
+    });
+
+    this.writeQueues.set(manifestPath, write);
+    await write;
+  }
+
+  /**
+   * List the groups that have a manifest file
+   * @returns {Promise<string[]>} Group names, as recorded in each manifest
+   */
+  async listGroups(): Promise<string[]> {
+    const files = (await readdir(this.dir).catch(() => []))
+      .filter(file => /^manifest-.+\.json$/.test(file))
+      .sort();
+
+    const groupNames = [];
+    for (const file of files) {
+      try {
+        const manifest = JSON.parse(await readFile(resolve(this.dir, file), 'utf-8'));
+        if (manifest.metadata?.group_name) {
+          groupNames.push(manifest.metadata.group_name);
+        }
+      } catch {
+        // Not a manifest we can read, ignore it
+      }
+    }
+
+    return groupNames;
+  }
+
+  /**
+   * Shift manifest backups (.bak.1 -> .bak.2 ...) and copy the current manifest to .bak.1
+   * A corrupted manifest is not a backup: it is moved aside to .corrupt and the backups are left as they are
+   */
+  private async rotateBackups(manifestPath: string) {
+    let data;
+    try {
+      data = await readFile(manifestPath, 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return;  // No manifest yet, nothing to back up
+      throw error;
+    }
+
+    try {
+      JSON.parse(data);
+    } catch {
+      await rename(manifestPath, `${manifestPath}.corrupt`);
+      log.warn(chalk.yellow(`   ⚠ Manifest ${manifestPath} is corrupted, moved to ${manifestPath}.corrupt (backups kept)`));
+      return;
+    }
+
+    for (let i = BACKUP_COUNT - 1; i >= 1; i--) {
+      await rename(`${manifestPath}.bak.${i}`, `${manifestPath}.bak.${i + 1}`).catch(() => {});
+    }
+
+    await copyFile(manifestPath, `${manifestPath}.bak.1`);
+  }
+
+  /**
+   * Read the newest backup that still parses
+   */
+  private async loadNewestBackup(manifestPath: string): Promise<{ path: string; manifest: Manifest } | null> {
+    for (let i = 1; i <= BACKUP_COUNT; i++) {
+      const backupPath = `${manifestPath}.bak.${i}`;
+      try {
+        return { path: backupPath, manifest: JSON.parse(await readFile(backupPath, 'utf-8')) };
+      } catch {
+        // Missing or corrupted too, try the next one
+      }
+    }
+    return null;
+  }
+}
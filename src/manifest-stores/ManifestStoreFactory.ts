@@ -0,0 +1,38 @@
+/**
+ * Manifest Store Factory
+ *
+ * Selects the manifest backend from configuration
+ */
+
+import { join } from 'path';
+import { getManifestDir } from '../state-dir.js';
+import { Config, ManifestStore } from '../types.js';
+import { JsonManifestStore } from './JsonManifestStore.js';
+import { SqliteManifestStore } from './SqliteManifestStore.js';
+
+export const DEFAULT_SQLITE_FILE = 'handing-backup.db';
+
+export class ManifestStoreFactory {
+  /**
+   * Get the store configured in config.manifestStore (JSON files when not set)
+   * Both live in <outputDir>/.handing/manifests unless manifestStore.path is set
+   */
+  static getStore(config: Config): ManifestStore {
+    const storeConfig = config.manifestStore;
+
+    switch (storeConfig?.type) {
+      case 'sqlite':
+        return new SqliteManifestStore(storeConfig.path || join(getManifestDir(config.outputDir), DEFAULT_SQLITE_FILE));
+      case 'json':
+      default:
+        return ManifestStoreFactory.getJsonStore(config);
+    }
+  }
+
+  /**
+   * Get the JSON file store of the archive, whatever store is configured (migration source)
+   */
+  static getJsonStore(config: Config): JsonManifestStore {
+    return new JsonManifestStore(getManifestDir(config.outputDir));
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * SQLite Manifest Store
+ *
+ * Keeps every group's manifest in one embedded database (posts, assets, avatars and runs tables)
+ * Saves only write the posts and avatars that changed since the manifest was loaded,
+ * in a single transaction
+ */
+
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { getGroupSlug } from '../utils.js';
+import { Manifest, ManifestStore, ManifestRun } from '../types.js';
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS manifests (
+    group_name TEXT PRIMARY KEY,
+    version TEXT NOT NULL,
+    created_at TEXT,
+    last_run TEXT,
+    total_posts INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS posts (
+    group_name TEXT NOT NULL,
+    post_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    title TEXT,
+    url TEXT,
+    timestamp TEXT,
+    author TEXT,
+    first_downloaded TEXT,
+    last_updated TEXT,
+    markdown_path TEXT,
+    data_path TEXT,
+    error TEXT,
+    content_hash TEXT,
+    comments_count INTEGER,
+    likes INTEGER,
+    extra TEXT NOT NULL DEFAULT '{}',
+    PRIMARY KEY (group_name, post_id)
+  );
+  CREATE INDEX IF NOT EXISTS posts_status ON posts (group_name, status);
+
+  CREATE TABLE IF NOT EXISTS assets (
+    group_name TEXT NOT NULL,
+    post_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL,
+    path TEXT,
+    file_name TEXT,
+    gallery_url TEXT,
+    source_name TEXT,
+    size INTEGER,
+    content_hash TEXT,
+    downloaded_at TEXT,
+    error TEXT,
+    PRIMARY KEY (group_name, post_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS assets_status ON assets (group_name, status);
+
+  CREATE TABLE IF NOT EXISTS avatars (
+    group_name TEXT NOT NULL,
+    author TEXT NOT NULL,
+    url TEXT NOT NULL,
+    filename TEXT,
+    downloaded_at TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    PRIMARY KEY (group_name, author)
+  );
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_name TEXT NOT NULL,
+    command TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    posts_found INTEGER NOT NULL DEFAULT 0,
+    posts_processed INTEGER NOT NULL DEFAULT 0,
+    posts_updated INTEGER NOT NULL DEFAULT 0,
+    posts_skipped INTEGER NOT NULL DEFAULT 0,
+    posts_failed INTEGER NOT NULL DEFAULT 0,
+    images_downloaded INTEGER NOT NULL DEFAULT 0,
+    videos_downloaded INTEGER NOT NULL DEFAULT 0,
+    failed_downloads INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS runs_group ON runs (group_name, id);
+`;
+
+// Post fields with their own column; every other field (output_paths, history, counts, ...) goes to "extra" as JSON
+const POST_COLUMNS = [
+  'status', 'title', 'url', 'timestamp', 'author', 'first_downloaded', 'last_updated',
+  'markdown_path', 'data_path', 'error', 'content_hash', 'comments_count', 'likes'
+];
+const ASSET_COLUMNS = [
+  'url', 'kind', 'status', 'path', 'file_name', 'gallery_url', 'source_name',
+  'size', 'content_hash', 'downloaded_at', 'error'
+];
+const AVATAR_COLUMNS = ['author', 'url', 'filename', 'downloaded_at', 'status', 'error'];
+const RUN_COLUMNS = [
+  'command', 'started_at', 'finished_at', 'posts_found', 'posts_processed', 'posts_updated',
+  'posts_skipped', 'posts_failed', 'images_downloaded', 'videos_downloaded', 'failed_downloads'
+];
+
+// What each loaded manifest looked like in the database, to write only what changed
+interface StoredState {
+  posts: Map<string, string>;  // postId -> JSON of the post as last saved
+  avatars: Map<string, string>;  // author -> JSON of the avatar as last saved
+  runs: WeakSet<ManifestRun>;  // Runs already in the runs table
+}
+
+export class SqliteManifestStore implements ManifestStore {
+  readonly type = 'sqlite' as const;
+  readonly path: string;
+
+  private db: any = null;
+  private stored = new WeakMap<Manifest, StoredState>();
+
+  /**
+   * @param {string} path - Database file (created on first use)
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  getLockPath(groupName: string): string {
+    return `${this.path}.${getGroupSlug(groupName)}.lock`;
+  }
+
+  describe(groupName: string): string {
+    return `${this.path} (group "${groupName}")`;
+  }
+
+  async load(groupName: string): Promise<Manifest | null> {
+    const db = await this.open();
+
+    const metadata = db.prepare('SELECT * FROM manifests WHERE group_name = ?').get(groupName);
+    if (!metadata) {
+      return null;
+    }
+
+    const manifest: Manifest = {
+      metadata: {
+        group_name: metadata.group_name,
+        created_at: metadata.created_at ?? undefined,
+        last_run: metadata.last_run ?? undefined,
+        total_posts: metadata.total_posts,
+        version: metadata.version
+      },
+      posts: {},
+      avatars: {},
+      runs: []
+    };
+    const state: StoredState = { posts: new Map(), avatars: new Map(), runs: new WeakSet() };
+
+    const assetsByPost = new Map<string, any[]>();
+    const assetRows = db.prepare('SELECT * FROM assets WHERE group_name = ? ORDER BY post_id, position').all(groupName);
+    for (const row of assetRows) {
+      if (!assetsByPost.has(row.post_id)) {
+        assetsByPost.set(row.post_id, []);
+      }
+      assetsByPost.get(row.post_id).push(fromRow(row, ASSET_COLUMNS));
+    }
+
+    for (const row of db.prepare('SELECT * FROM posts WHERE group_name = ?').all(groupName)) {
+      const post = { ...fromRow(row, POST_COLUMNS), ...JSON.parse(row.extra) };
+      if (assetsByPost.has(row.post_id)) {
+        post.assets = assetsByPost.get(row.post_id);
+      }
+      manifest.posts[row.post_id] = post;
+      state.posts.set(row.post_id, JSON.stringify(post));
+    }
+
+    for (const row of db.prepare('SELECT * FROM avatars WHERE group_name = ?').all(groupName)) {
+      const avatar = fromRow(row, AVATAR_COLUMNS);
+      manifest.avatars[row.author] = avatar;
+      state.avatars.set(row.author, JSON.stringify(avatar));
+    }
+
+    for (const row of db.prepare('SELECT * FROM runs WHERE group_name = ? ORDER BY id').all(groupName)) {
+      const run = fromRow(row, RUN_COLUMNS);
+      manifest.runs.push(run);
+      state.runs.add(run);
+    }
+
+    this.stored.set(manifest, state);
+    return manifest;
+  }
+
+  async save(groupName: string, manifest: Manifest): Promise<void> {
+    const db = await this.open();
+    const previous = this.stored.get(manifest);
+    // Work on a copy so a failed transaction leaves the known database state untouched
+    const state: StoredState = {
+      posts: new Map(previous?.posts),
+      avatars: new Map(previous?.avatars),
+      runs: previous?.runs || new WeakSet()
+    };
+    const insertedRuns: ManifestRun[] = [];
+
+    const statements = {
+      upsertManifest: db.prepare(`
+        INSERT INTO manifests (group_name, version, created_at, last_run, total_posts)
+        VALUES (@group_name, @version, @created_at, @last_run, @total_posts)
+        ON CONFLICT (group_name) DO UPDATE SET
+          version = excluded.version, created_at = excluded.created_at,
+          last_run = excluded.last_run, total_posts = excluded.total_posts
+      `),
+      upsertPost: db.prepare(insertOrReplace('posts', ['group_name', 'post_id', ...POST_COLUMNS, 'extra'])),
+      deletePost: db.prepare('DELETE FROM posts WHERE group_name = ? AND post_id = ?'),
+      deleteAssets: db.prepare('DELETE FROM assets WHERE group_name = ? AND post_id = ?'),
+      insertAsset: db.prepare(insertOrReplace('assets', ['group_name', 'post_id', 'position', ...ASSET_COLUMNS])),
+      upsertAvatar: db.prepare(insertOrReplace('avatars', ['group_name', ...AVATAR_COLUMNS])),
+      deleteAvatar: db.prepare('DELETE FROM avatars WHERE group_name = ? AND author = ?'),
+      insertRun: db.prepare(insertOrReplace('runs', ['group_name', ...RUN_COLUMNS]))
+    };
+
+    const write = db.transaction(() => {
+      // A manifest that was not loaded from this database replaces whatever the group had
+      if (!previous) {
+        for (const table of ['posts', 'assets', 'avatars', 'runs']) {
+          db.prepare(`DELETE FROM ${table} WHERE group_name = ?`).run(groupName);
+        }
+      }
+
+      statements.upsertManifest.run({
+        group_name: groupName,
+        version: manifest.metadata.version,
+        created_at: manifest.metadata.created_at ?? null,
+        last_run: manifest.metadata.last_run ?? null,
+        total_posts: manifest.metadata.total_posts
+      });
+
+      for (const [postId, post] of Object.entries(manifest.posts) as [string, any][]) {
+        const json = JSON.stringify(post);
+        if (state.posts.get(postId) === json) continue;
+
+        const { assets, ...fields } = post;
+        const extra = Object.fromEntries(Object.entries(fields).filter(([key]) => !POST_COLUMNS.includes(key)));
+        statements.upsertPost.run({ group_name: groupName, post_id: postId, ...toRow(fields, POST_COLUMNS), extra: JSON.stringify(extra) });
+
+        statements.deleteAssets.run(groupName, postId);
+        (assets || []).forEach((asset, position) => {
+          statements.insertAsset.run({ group_name: groupName, post_id: postId, position, ...toRow(asset, ASSET_COLUMNS) });
+        });
+        state.posts.set(postId, json);
+      }
+
+      for (const postId of Array.from(state.posts.keys())) {
+        if (!(postId in manifest.posts)) {
+          statements.deleteAssets.run(groupName, postId);
+          statements.deletePost.run(groupName, postId);
+          state.posts.delete(postId);
+        }
+      }
+
+      const avatars = manifest.avatars || {};
+      for (const [author, avatar] of Object.entries(avatars)) {
+        const json = JSON.stringify(avatar);
+        if (state.avatars.get(author) === json) continue;
+
+        statements.upsertAvatar.run({ group_name: groupName, ...toRow({ ...avatar, author }, AVATAR_COLUMNS) });
+        state.avatars.set(author, json);
+      }
+
+      for (const author of Array.from(state.avatars.keys())) {
+        if (!(author in avatars)) {
+          statements.deleteAvatar.run(groupName, author);
+          state.avatars.delete(author);
+        }
+      }
+
+      // Runs are append-only: the table keeps every run even when the manifest trims old ones
+      for (const run of manifest.runs || []) {
+        if (state.runs.has(run)) continue;
+
+        statements.insertRun.run({ group_name: groupName, ...toRow(run, RUN_COLUMNS) });
+        insertedRuns.push(run);
+      }
+    });
+
+    write();
+    insertedRuns.forEach(run => state.runs.add(run));
+    this.stored.set(manifest, state);
+  }
+
+  async listGroups(): Promise<string[]> {
+    const db = await this.open();
+    return db.prepare('SELECT group_name FROM manifests ORDER BY group_name').all()
+      .map(row => row.group_name);
+  }
+
+  /**
+   * Open the database and create the tables on first use
+   * better-sqlite3 is loaded here so JSON-only setups never need the native module
+   */
+  private async open() {
+    if (this.db) {
+      return this.db;
+    }
+
+    let Database;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch (error) {
+      throw new Error(`The SQLite manifest store needs the better-sqlite3 package (npm install better-sqlite3): ${error.message}`);
+    }
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const db = new Database(this.path);
+    db.exec(SCHEMA);
+
+    const version = db.pragma('user_version', { simple: true });
+    if (version > SCHEMA_VERSION) {
+      db.close();
+      throw new Error(`Manifest database ${this.path} was written by a newer version (schema ${version}); update the tool`);
+    }
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+
+    this.db = db;
+    return db;
+  }
+}
+
+/**
+ * Build an INSERT OR REPLACE statement with named parameters
+ */
+function insertOrReplace(table: string, columns: string[]): string {
+  return `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})`;
+}
+
+/**
+ * Pick the column values of an object (missing fields become NULL)
+ */
+function toRow(object: any, columns: string[]): Record<string, any> {
+  return Object.fromEntries(columns.map(column => [column, object[column] ?? null]));
+}
+
+/**
+ * Rebuild an object from a row (NULL columns are left out, like unset fields in the JSON manifests)
+ */
+function fromRow(row: any, columns: string[]): any {
+  const object = {};
+  for (const column of columns) {
+    if (row[column] !== null) {
+      object[column] = row[column];
+    }
+  }
+  return object;
+}
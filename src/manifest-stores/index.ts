@@ -0,0 +1,7 @@
+/**
+ * Manifest Store Exports
+ */
+
+export { ManifestStoreFactory, DEFAULT_SQLITE_FILE } from './ManifestStoreFactory.js';
+export { JsonManifestStore } from './JsonManifestStore.js';
+export { SqliteManifestStore } from './SqliteManifestStore.js';
@@ -2,55 +2,230 @@
  * Manifest Management
  *
  * Tracks download state to enable smart updates and resume capability
- * Each group has its own manifest file
+ * Each group has its own manifest, persisted by the configured store (JSON files or SQLite)
  */
 
-import { readFile, writeFile } from 'fs/promises';
-import { resolve } from 'path';
-import { sanitizeFilename } from './utils.js';
+import { readFile, open, unlink, mkdir } from 'fs/promises';
+import { unlinkSync } from 'fs';
+import { dirname } from 'path';
+import { hostname } from 'os';
+import { hashString } from './utils.js';
+import { ManifestStoreFactory } from './manifest-stores/index.js';
+import { AssetOutcome, Config, Manifest, ManifestAsset, ManifestRun, ManifestStore } from './types.js';
+
+const MANIFEST_VERSION = '1.2.0';  // 1.1.0 added avatars, 1.2.0 per-asset tracking
+const MAX_RUNS = 100;  // Runs kept in each manifest (the SQLite runs table keeps all of them)
+
+// Store used by loadManifest/saveManifest, and the archive's JSON store (set by configureManifestStore)
+let store: ManifestStore | null = null;
+let jsonStore: ManifestStore | null = null;
+// Lock files held by this process, removed on exit
+const heldLocks = new Set<string>();
+
+process.on('exit', () => {
+  for (const lockPath of heldLocks) {
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Already gone
+    }
+  }
+});
 
 /**
- * Generate manifest file path for a group
- * @param {string} groupName - Group name
- * @returns {string} Manifest file path
+ * Select the manifest store from configuration (config.manifestStore and outputDir)
+ * Must be called before any other manifest function
+ * @param {Config} config - Configuration object
+ * @returns {ManifestStore} The active store
+ */
+export function configureManifestStore(config: Config): ManifestStore {
+  store = ManifestStoreFactory.getStore(config);
+  jsonStore = ManifestStoreFactory.getJsonStore(config);
+  return store;
+}
+
+/**
+ * Get the active manifest store
+ * @returns {ManifestStore}
  */
-function getManifestPath(groupName) {
-  const sanitized = sanitizeFilename(groupName)
-    .toLowerCase()
-    .replace(/\s+/g, '-');
-  return resolve(process.cwd(), `manifest-${sanitized}.json`);
+export function getManifestStore(): ManifestStore {
+  if (!store) {
+    throw new Error('Manifest store not configured: call configureManifestStore(config) first');
+  }
+  return store;
 }
 
 /**
- * Load manifest from disk for a specific group
+ * Load manifest for a specific group
  * @param {string} groupName - Group name
  * @returns {Promise<Object>} Manifest object
  */
 export async function loadManifest(groupName) {
-  const manifestPath = getManifestPath(groupName);
+  const store = getManifestStore();
+  const manifest = await store.load(groupName);
+  if (manifest) {
+    return migrateManifest(manifest);
+  }
 
-  try {
-    const data = await readFile(manifestPath, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    if (error.code === 'ENOENT') {
-      // Manifest doesn't exist yet, create new one
-      return createEmptyManifest(groupName);
+  // Starting from an empty manifest would download the whole group again
+  if (store.type !== 'json') {
+    if ((await jsonStore.load(groupName)) !== null) {
+      throw new Error(
+        `Group "${groupName}" has a JSON manifest (${jsonStore.describe(groupName)}) but no entry in ${store.describe(groupName)}. ` +
+        'Run "handing-backup migrate-store" first.'
+      );
     }
-    throw error;
   }
+
+  // Manifest doesn't exist yet, create new one
+  return createEmptyManifest(groupName);
 }
 
 /**
- * Save manifest to disk for a specific group
+ * Save manifest for a specific group
  * @param {string} groupName - Group name
  * @param {Object} manifest - Manifest object
  */
 export async function saveManifest(groupName, manifest) {
-  const manifestPath = getManifestPath(groupName);
   manifest.metadata.last_run = new Date().toISOString();
-  const data = JSON.stringify(manifest, null, 2);
-  await writeFile(manifestPath, data, 'utf-8');
+  await getManifestStore().save(groupName, manifest);
+}
+
+/**
+ * Copy every JSON manifest of the archive into the active store (one-shot migration, the JSON files are left in place)
+ * Groups the active store already has are skipped
+ * @param {string[]} groupNames - Groups to copy (from listJsonManifestGroups)
+ * @returns {Promise<Object>} { migrated: group names, skipped: group names already in the store }
+ */
+export async function migrateJsonManifests(groupNames: string[]): Promise<{ migrated: string[]; skipped: string[] }> {
+  const target = getManifestStore();
+  const migrated = [];
+  const skipped = [];
+
+  for (const groupName of groupNames) {
+    if ((await target.load(groupName)) !== null) {
+      skipped.push(groupName);
+      continue;
+    }
+
+    const manifest = migrateManifest(await jsonStore.load(groupName));
+    await target.save(groupName, manifest);
+    migrated.push(groupName);
+  }
+
+  return { migrated, skipped };
+}
+
+/**
+ * Lock a group's manifest so a second run for the same group fails fast
+ * The lock file records pid and host; locks left by a process that no longer runs are taken over
+ * @param {string} groupName - Group name
+ * @returns {Promise<Function>} Releases the lock
+ */
+export async function lockManifest(groupName): Promise<() => Promise<void>> {
+  const lockPath = getManifestStore().getLockPath(groupName);
+  const owner = { pid: process.pid, host: hostname(), started_at: new Date().toISOString() };
+
+  await mkdir(dirname(lockPath), { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(JSON.stringify(owner, null, 2), 'utf-8');
+      await handle.close();
+      heldLocks.add(lockPath);
+
+      return async () => {
+        heldLocks.delete(lockPath);
+        await unlink(lockPath).catch(() => {});
+      };
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+
+      const holder = await readFile(lockPath, 'utf-8').then(JSON.parse).catch(() => null);
+      if (holder && !isStaleLock(holder)) {
+        throw new Error(
+          `Group "${groupName}" is being processed by another run (pid ${holder.pid} on ${holder.host} since ${holder.started_at}). ` +
+          `If that run is no longer active, delete ${lockPath}`
+        );
+      }
+
+      // Stale (or unreadable) lock from a crashed run: take it over
+      await unlink(lockPath).catch(() => {});
+    }
+  }
+
+  throw new Error(`Could not lock manifest for group "${groupName}" (${lockPath})`);
+}
+
+/**
+ * A lock is stale when its process no longer runs on this host
+ */
+function isStaleLock(holder): boolean {
+  if (holder.host !== hostname()) {
+    return false;  // Can't check processes on another machine
+  }
+
+  try {
+    process.kill(holder.pid, 0);
+    return false;
+  } catch (error) {
+    return error.code === 'ESRCH';
+  }
+}
+
+/**
+ * List the groups that have a manifest in the active store
+ * @returns {Promise<string[]>} Group names, as recorded in each manifest
+ */
+export async function listManifestGroups(): Promise<string[]> {
+  return getManifestStore().listGroups();
+}
+
+/**
+ * List the groups that have a manifest-<group>.json file in the archive (migration source)
+ * @returns {Promise<string[]>} Group names
+ */
+export async function listJsonManifestGroups(): Promise<string[]> {
+  getManifestStore();
+  return jsonStore.listGroups();
+}
+
+/**
+ * Upgrade a manifest from an older format version (in memory; saved on the next write)
+ * @param {Object} manifest - Manifest as read from disk
+ * @returns {Object} Manifest in the current format
+ */
+function migrateManifest(manifest: Manifest): Manifest {
+  const version = manifest.metadata?.version || '1.0.0';
+  if (version === MANIFEST_VERSION) {
+    return manifest;
+  }
+
+  // 1.0.0 -> 1.1.0: avatar tracking
+  if (!manifest.avatars) {
+    manifest.avatars = {};
+  }
+
+  // 1.1.0 -> 1.2.0: per-asset tracking replaces the (never filled) media array
+  for (const post of Object.values(manifest.posts) as any[]) {
+    const legacyMedia = Array.isArray(post.media) ? post.media : [];
+    post.assets = post.assets || legacyMedia
+      .filter(media => media.url)
+      .map(media => ({
+        url: media.url,
+        kind: media.type === 'video' ? 'video' : 'image',
+        status: media.status === 'downloaded' ? 'complete' : 'failed',
+        path: media.path,
+        file_name: media.filename,
+        error: media.error
+      }));
+    delete post.media;
+  }
+
+  manifest.metadata.version = MANIFEST_VERSION;
+  return manifest;
 }
 
 /**
@@ -65,7 +240,7 @@ function createEmptyManifest(groupName) {
       created_at: new Date().toISOString(),
       last_run: null,
       total_posts: 0,
-      version: '1.1.0'  // Bumped for avatar support
+      version: MANIFEST_VERSION
     },
     posts: {},
     avatars: {}  // Track downloaded avatars
@@ -93,6 +268,16 @@ export function updatePost(manifest, postId, postData) {
 
   manifest.posts[postId] = {
     ...postData,
+    history: postData.history ?? existing?.history,  // Never drop the version history
+    assets: postData.assets ?? existing?.assets,  // Failed posts keep the assets of their last successful run
+    // ...and the fingerprint and files of that run, so a later edit is still detected and archived
+    content_hash: postData.content_hash ?? existing?.content_hash,
+    comments_count: postData.comments_count ?? existing?.comments_count,
+    likes: postData.likes ?? existing?.likes,
+    author: postData.author ?? existing?.author,
+    markdown_path: postData.markdown_path ?? existing?.markdown_path,
+    output_paths: postData.output_paths ?? existing?.output_paths,
+    data_path: postData.data_path ?? existing?.data_path,
     first_downloaded: existing?.first_downloaded || new Date().toISOString(),
     last_updated: new Date().toISOString()
   };
@@ -101,40 +286,39 @@ export function updatePost(manifest, postId, postData) {
 }
 
 /**
- * Mark media as downloaded
+ * Mark an asset of a post as downloaded
  * @param {Object} manifest - Manifest object
  * @param {string} postId - Post ID
- * @param {string} mediaId - Media ID
- * @param {Object} mediaData - Media data
+ * @param {string} assetUrl - Source URL of the asset
+ * @param {Object} assetData - Asset fields to update (path, size, content_hash, ...)
  */
-export function markMediaDownloaded(manifest, postId, mediaId, mediaData) {
+export function markMediaDownloaded(manifest, postId, assetUrl, assetData: Partial<ManifestAsset>) {
   if (!manifest.posts[postId]) {
     throw new Error(`Post ${postId} not found in manifest`);
   }
 
-  const media = manifest.posts[postId].media.find(m => m.id === mediaId);
-  if (media) {
-    media.status = 'downloaded';
-    media.downloaded_at = new Date().toISOString();
-    Object.assign(media, mediaData);
+  const asset = (manifest.posts[postId].assets || []).find(a => a.url === assetUrl);
+  if (asset) {
+    Object.assign(asset, assetData);
+    asset.status = 'complete';
+    asset.downloaded_at = new Date().toISOString();
+    delete asset.error;
   }
 }
 
 /**
- * Get all failed media from manifest
+ * Get all failed assets from manifest
  * @param {Object} manifest - Manifest object
- * @returns {Array} Array of failed media items with post context
+ * @returns {Array} Array of failed assets with post context
  */
-export function getFailedMedia(manifest: any) {
+export function getFailedMedia(manifest: any): Array<{ postId: string; post: any; asset: ManifestAsset }> {
   const failed = [];
 
   for (const [postId, post] of Object.entries(manifest.posts)) {
     const postData = post as any;
-    if (postData.media) {
-      for (const media of postData.media) {
-        if (media.status === 'failed' || media.status === 'pending') {
-          failed.push({ postId, post, media });
-        }
+    for (const asset of postData.assets || []) {
+      if (asset.status === 'failed') {
+        failed.push({ postId, post, asset });
       }
     }
   }
@@ -152,6 +336,62 @@ export function isPostComplete(manifest: any, postId: string): boolean {
   return manifest.posts[postId]?.status === 'complete';
 }
 
+/**
+ * Build the change-detection fingerprint of a post from its timeline data
+ * @param {Object} post - Post object from extractPostsFromTimeline
+ * @returns {Object} Fingerprint fields stored in the manifest
+ */
+export function getPostFingerprint(post: any) {
+  const images = Array.isArray(post.images) ? post.images : [];
+  // Image URLs can carry expiring query strings - only the path identifies the image
+  const imagePaths = images.map(url => String(url).split('?')[0]);
+
+  return {
+    content_hash: hashString(JSON.stringify([post.title || '', post.content || '', imagePaths])),
+    comments_count: post.commentsCount || 0,
+    likes: post.likes || 0
+  };
+}
+
+/**
+ * Compare timeline data with the fingerprint stored for a post
+ * Posts tracked before fingerprints existed have no baseline and report no changes
+ * @param {Object} manifest - Manifest object
+ * @param {Object} post - Post object from extractPostsFromTimeline
+ * @returns {string[]} What changed: 'content', 'comments' and/or 'likes' (empty if unchanged)
+ */
+export function detectPostChanges(manifest: any, post: any): string[] {
+  const existing = manifest.posts[post.id];
+  if (!existing || !existing.content_hash) {
+    return [];
+  }
+
+  const current = getPostFingerprint(post);
+  const changes = [];
+
+  if (current.content_hash !== existing.content_hash) changes.push('content');
+  if (current.comments_count !== (existing.comments_count ?? 0)) changes.push('comments');
+  if (current.likes !== (existing.likes ?? 0)) changes.push('likes');
+
+  return changes;
+}
+
+/**
+ * Store the fingerprint of a post tracked before fingerprints existed
+ * @param {Object} manifest - Manifest object
+ * @param {Object} post - Post object from extractPostsFromTimeline
+ * @returns {boolean} True if a fingerprint was added
+ */
+export function backfillPostFingerprint(manifest: any, post: any): boolean {
+  const existing = manifest.posts[post.id];
+  if (!existing || existing.content_hash) {
+    return false;
+  }
+
+  Object.assign(existing, getPostFingerprint(post));
+  return true;
+}
+
 /**
  * Get list of failed posts for retry
  * @param {Object} manifest - Manifest object
@@ -163,6 +403,38 @@ export function getFailedPosts(manifest: any): string[] {
     .map(([id, _]) => id);
 }
 
+/**
+ * Get posts that need another attempt (failed, or complete with some failed downloads)
+ * @param {Object} manifest - Manifest object
+ * @returns {string[]} Array of failed and partial post IDs
+ */
+export function getPostsToRetry(manifest: any): string[] {
+  return Object.entries(manifest.posts)
+    .filter(([_, post]) => ['failed', 'partial'].includes((post as any).status))
+    .map(([id, _]) => id);
+}
+
+/**
+ * Convert post processing asset outcomes to manifest asset records
+ * @param {AssetOutcome[]} assets - Asset outcomes from PostProcessor
+ * @returns {ManifestAsset[]}
+ */
+export function toManifestAssets(assets: AssetOutcome[]): ManifestAsset[] {
+  return assets.map(asset => ({
+    url: asset.sourceUrl,
+    kind: asset.kind,
+    status: asset.status === 'success' ? 'complete' : asset.status,
+    path: asset.filePath,
+    file_name: asset.fileName,
+    gallery_url: asset.galleryUrl,
+    source_name: asset.sourceName,
+    size: asset.size,
+    content_hash: asset.contentHash,
+    downloaded_at: asset.downloadedAt,
+    error: asset.error
+  }));
+}
+
 /**
  * Get processing statistics from manifest
  * @param {Object} manifest - Manifest object
@@ -213,6 +485,15 @@ export function updateAvatar(
   };
 }
 
+/**
+ * Record a finished backup or retry run of the group (saved with the manifest)
+ * @param {Object} manifest - Manifest object
+ * @param {ManifestRun} run - Run statistics
+ */
+export function recordRun(manifest: any, run: ManifestRun): void {
+  manifest.runs = [...(manifest.runs || []), run].slice(-MAX_RUNS);
+}
+
 /**
  * Get failed avatars for retry
  * @param {Object} manifest - Manifest object
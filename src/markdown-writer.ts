@@ -6,6 +6,7 @@
 
 import { writeFile } from 'fs/promises';
 import { sanitizeFilename, parseTimestamp } from './utils.js';
+import { sanitizeHtml } from './html-sanitizer.js';
 import { getRelativeAvatarPath, generateAvatarFilename, getRelativeMediaPath } from './file-organizer.js';
 
 /**
@@ -28,10 +29,20 @@ export function generatePostMarkdown(post: any, mediaInfo: any = {}) {
     content,
     contentStyles = '',
     externalLinks = [],
-    comments = []
+    comments = [],
+    likedBy = [],
+    polls = [],
+    readConfirmation
   } = post;
 
-  const { images = [], videos = [], downloadedExternalFiles = [], galleryImages = [], avatarFilename = null } = mediaInfo;
+  const {
+    images = [],
+    videos = [],
+    downloadedExternalFiles = [],
+    galleryImages = [],
+    commentImages = new Map<string, string>(),
+    avatarFilename = null
+  } = mediaInfo;
 
   let markdown = '';
 
@@ -53,6 +64,9 @@ export function generatePostMarkdown(post: any, mediaInfo: any = {}) {
   markdown += `likes: ${likes || 0}\n`;
   markdown += `comments_count: ${comments.length}\n`;
   markdown += `has_external_links: ${externalLinks.length > 0}\n`;
+  if (readConfirmation) {
+    markdown += `read_confirmed: ${readConfirmation.confirmed}\n`;
+  }
   markdown += '---\n\n';
 
   // Author avatar and title (after frontmatter, before title)
@@ -149,6 +163,49 @@ export function generatePostMarkdown(post: any, mediaInfo: any = {}) {
     markdown += '\n';
   }
 
+  // Polls section (questions with their vote tallies; sign-up lists show who signed up)
+  for (const poll of polls) {
+    markdown += `## Poll: ${poll.question || 'Untitled'}\n\n`;
+
+    const flags = [poll.closed ? 'Closed' : 'Open', poll.multipleChoice ? 'multiple choice' : 'single choice'];
+    markdown += `*${flags.join(', ')} · ${poll.totalVotes} votes*\n\n`;
+
+    markdown += '| Option | Votes |\n';
+    markdown += '|--------|------:|\n';
+    for (const option of poll.options) {
+      const text = option.text.replace(/\|/g, '\\|');
+      markdown += `| ${option.selected ? `**${text}** ✓` : text} | ${option.votes} |\n`;
+    }
+    markdown += '\n';
+
+    const withVoters = poll.options.filter(o => o.voters && o.voters.length > 0);
+    if (withVoters.length > 0) {
+      for (const option of withVoters) {
+        markdown += `- **${option.text}**: ${option.voters.join(', ')}\n`;
+      }
+      markdown += '\n';
+    }
+  }
+
+  // Read confirmation section
+  if (readConfirmation) {
+    markdown += '## Read Confirmation\n\n';
+    if (readConfirmation.confirmed) {
+      markdown += `✓ Confirmed${readConfirmation.confirmedAt ? ` on ${readConfirmation.confirmedAt}` : ''}\n\n`;
+    } else {
+      markdown += 'Not confirmed\n\n';
+    }
+    if (readConfirmation.readCount !== undefined && readConfirmation.recipientsCount !== undefined) {
+      markdown += `Read by ${readConfirmation.readCount} of ${readConfirmation.recipientsCount}\n\n`;
+    }
+  }
+
+  // Likes section (who liked the post)
+  if (likedBy.length > 0) {
+    markdown += `## Likes (${likedBy.length})\n\n`;
+    markdown += `${likedBy.join(', ')}\n\n`;
+  }
+
   // Comments section
   if (comments.length > 0) {
     markdown += `## Comments (${comments.length})\n\n`;
@@ -171,42 +228,87 @@ export function generatePostMarkdown(post: any, mediaInfo: any = {}) {
       }
 
       markdown += `*${comment.timestamp}*\n\n`;
-      markdown += `${comment.text}\n\n`;
+      markdown += generateCommentBodyMarkdown(comment, '', commentImages);
 
       if (comment.likes > 0) {
         markdown += `👍 ${comment.likes} likes\n\n`;
       }
 
+      // Replies, nested to any depth
+      markdown += generateRepliesMarkdown(comment.replies || [], 1, commentImages);
+
       markdown += '---\n\n';
+    }
+  }
 
-      // Handle nested replies
-      if (comment.replies && comment.replies.length > 0) {
-        for (const reply of comment.replies) {
-          // Add avatar to reply
-          const replyAvatarPath = reply.authorAvatar
-            ? getRelativeAvatarPath(generateAvatarFilename(reply.author, reply.authorAvatar))
-            : null;
-
-          if (replyAvatarPath) {
-            markdown += `**Reply by ![Avatar](${replyAvatarPath}) ${reply.author}**`;
-          } else {
-            markdown += `**Reply by ${reply.author}**`;
-          }
-
-          // Add reply author role if available
-          if (reply.authorRole) {
-            markdown += ` *(${reply.authorRole})*`;
-          }
-
-          markdown += ` *${reply.timestamp}*\n\n`;
-
-          markdown += `> ${reply.text}\n\n`;
-          if (reply.likes > 0) {
-            markdown += `> 👍 ${reply.likes} likes\n\n`;
-          }
-        }
-      }
+  return markdown;
+}
+
+/**
+ * Generate markdown for the replies to a comment: each level of nesting is one more quote level
+ * @param {Array} replies - Reply comment objects
+ * @param {number} depth - 1 for replies to a top-level comment
+ * @param {Map} commentImages - Downloaded comment images (source URL -> filename)
+ * @returns {string} Markdown content
+ */
+function generateRepliesMarkdown(replies, depth, commentImages) {
+  const authorQuote = '> '.repeat(depth - 1);
+  const quote = '> '.repeat(depth);
+  let markdown = '';
+
+  for (const reply of replies) {
+    // Add avatar to reply
+    const replyAvatarPath = reply.authorAvatar
+      ? getRelativeAvatarPath(generateAvatarFilename(reply.author, reply.authorAvatar))
+      : null;
+
+    if (replyAvatarPath) {
+      markdown += `${authorQuote}**Reply by ![Avatar](${replyAvatarPath}) ${reply.author}**`;
+    } else {
+      markdown += `${authorQuote}**Reply by ${reply.author}**`;
+    }
+
+    // Add reply author role if available
+    if (reply.authorRole) {
+      markdown += ` *(${reply.authorRole})*`;
+    }
+
+    markdown += ` *${reply.timestamp}*\n\n`;
+
+    markdown += generateCommentBodyMarkdown(reply, quote, commentImages);
+    if (reply.likes > 0) {
+      markdown += `${quote}👍 ${reply.likes} likes\n\n`;
     }
+
+    markdown += generateRepliesMarkdown(reply.replies || [], depth + 1, commentImages);
+  }
+
+  return markdown;
+}
+
+/**
+ * Generate markdown for the body of a comment: its sanitized HTML (formatting, links and inline
+ * images) on one line so it stays inside a quote, then the pictures attached to it
+ * Plain text is written with '<' escaped, so markdown viewers do not read it as HTML
+ * @param {Object} comment - Comment object (comments saved before HTML was kept only have text)
+ * @param {string} quote - Quote prefix of every line ('' for top-level comments)
+ * @param {Map} commentImages - Downloaded comment images (source URL -> filename)
+ * @returns {string} Markdown content
+ */
+function generateCommentBodyMarkdown(comment, quote, commentImages) {
+  const body = comment.html
+    ? sanitizeHtml(comment.html).replace(/\s*\n\s*/g, ' ')
+    : comment.text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  let markdown = `${quote}${body}\n\n`;
+
+  const images = comment.images || [];
+  if (images.length > 0) {
+    for (let i = 0; i < images.length; i++) {
+      // The downloaded copy, or the Handing URL when the download failed
+      const fileName = commentImages.get(images[i]);
+      markdown += `${quote}![Comment Image ${i + 1}](${fileName ? getRelativeMediaPath(fileName) : images[i]})\n`;
+    }
+    markdown += '\n';
   }
 
   return markdown;
@@ -266,7 +368,7 @@ export function generateExternalLinksMarkdown(post, failedLinks = []) {
  * Generate markdown for monthly index
  * @param {string} groupName - Group name
  * @param {string} monthYear - Month and year (e.g., "Enero 2025")
- * @param {Array} posts - Array of post objects
+ * @param {Array} posts - Array of post objects (optional `filename` overrides the generated one)
  * @returns {string} Markdown content
  */
 export function generateMonthlyIndexMarkdown(groupName, monthYear, posts) {
@@ -275,9 +377,50 @@ export function generateMonthlyIndexMarkdown(groupName, monthYear, posts) {
   markdown += '## Posts\n\n';
 
   for (const post of posts) {
-    const filename = generatePostFilename(post);
+    const filename = post.filename || generatePostFilename(post);
     const titleDisplay = post.title || '*(no title)*';
-    markdown += `- [${post.timestamp} - ${titleDisplay}](./Messages/${encodeURIComponent(filename)}) - ${post.author}\n`;
+    const label = post.timestamp ? `${post.timestamp} - ${titleDisplay}` : titleDisplay;
+    const authorDisplay = post.author ? ` - ${post.author}` : '';
+    markdown += `- [${label}](./Messages/${encodeURIComponent(filename)})${authorDisplay}\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Generate markdown for a group's index within one year
+ * @param {string} groupName - Group name
+ * @param {string} year - Year
+ * @param {Array} months - Array of { monthName, postCount } sorted chronologically
+ * @returns {string} Markdown content
+ */
+export function generateGroupIndexMarkdown(groupName, year, months) {
+  const totalPosts = months.reduce((sum, m) => sum + m.postCount, 0);
+
+  let markdown = `# ${groupName} - ${year}\n\n`;
+  markdown += `**Total posts:** ${totalPosts}\n\n`;
+  markdown += '## Months\n\n';
+
+  for (const month of months) {
+    const label = month.monthName.replace(/^\d+_/, '');
+    markdown += `- [${label}](./${encodeURIComponent(month.monthName)}/_index.md) (${month.postCount} posts)\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Generate markdown for a year's index
+ * @param {string} year - Year
+ * @param {Array} groups - Array of group names present in this year
+ * @returns {string} Markdown content
+ */
+export function generateYearIndexMarkdown(year, groups) {
+  let markdown = `# Handing Backup - ${year}\n\n`;
+  markdown += '## Groups\n\n';
+
+  for (const group of groups) {
+    markdown += `- [${group}](./Mis%20Grupos/${encodeURIComponent(group)}/_index.md)\n`;
   }
 
   return markdown;
@@ -285,21 +428,26 @@ export function generateMonthlyIndexMarkdown(groupName, monthYear, posts) {
 
 /**
  * Generate markdown for top-level index
- * @param {Array} groups - Array of group names
+ * @param {Array} years - Array of { year, groups } sorted newest first
  * @param {string} lastUpdated - ISO timestamp
  * @returns {string} Markdown content
  */
-export function generateTopLevelIndexMarkdown(groups, lastUpdated) {
+export function generateTopLevelIndexMarkdown(years, lastUpdated) {
   let markdown = '# Handing Backup - Mis Grupos\n\n';
-  markdown += '## 2025\n\n';
-  markdown += '### Groups\n';
 
-  for (const group of groups) {
-    const encoded = encodeURIComponent(group);
-    markdown += `- [${group}](./2025/Mis%20Grupos/${encoded}/)\n`;
+  for (const { year, groups } of years) {
+    markdown += `## [${year}](./${year}/_index.md)\n\n`;
+    markdown += '### Groups\n';
+
+    for (const group of groups) {
+      const encoded = encodeURIComponent(group);
+      markdown += `- [${group}](./${year}/Mis%20Grupos/${encoded}/)\n`;
+    }
+
+    markdown += '\n';
   }
 
-  markdown += `\nLast updated: ${lastUpdated}\n`;
+  markdown += `Last updated: ${lastUpdated}\n`;
 
   return markdown;
 }
@@ -0,0 +1,779 @@
+/**
+ * Backup Pipeline
+ *
+ * Shared orchestration used by every entry point (CLI subcommands, main, test-single-post):
+ * browser session, group resolution and timeline processing (posts go through PostProcessor)
+ */
+
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import pLimit from 'p-limit';
+import { usesGroupDiscovery, filterGroups, getPerformanceSettings, getSiteSettings } from './config.js';
+import {
+  loadManifest,
+  saveManifest,
+  isPostComplete,
+  getManifestStats,
+  hasAvatar,
+  updateAvatar,
+  detectPostChanges,
+  backfillPostFingerprint,
+  listManifestGroups,
+  getPostsToRetry,
+  getFailedAvatars,
+  lockManifest,
+  recordRun
+} from './manifest.js';
+import {
+  initializeScraper,
+  closeScraper,
+  ensureAuthenticated,
+  getGroups,
+  navigateToGroup,
+  extractAllPosts
+} from './scraper.js';
+import {
+  createAvatarsDirectory,
+  getAvatarFilePath,
+  generateAvatarFilename,
+  getMediaType
+} from './file-organizer.js';
+import { downloadAvatarsBatch } from './downloader.js';
+import { DownloaderFactory } from './downloaders/index.js';
+import { ExporterFactory } from './exporters/index.js';
+import { rebuildGroupIndexes, rebuildTopLevelIndexes } from './index-builder.js';
+import { PostProcessor } from './post-processor.js';
+import { RunReporter } from './run-report.js';
+import { configureRateLimits } from './rate-limiter.js';
+import { getActiveRecordingsDir } from './recorder.js';
+import { startGroupProgress, startPostProgress, finishPostProgress } from './progress-dashboard.js';
+import { getDebugFilePath } from './state-dir.js';
+import { getGroupSlug } from './utils.js';
+import { createLogger } from './logger.js';
+import { Config, GroupConfig, Exporter, ManifestRun, Post, PostProcessingResult } from './types.js';
+
+const log = createLogger('pipeline');
+
+export interface BackupSession {
+  browser: any;
+  page: any;
+  context: any;
+  downloaderFactory: DownloaderFactory;
+  exporters: Exporter[];
+  reporter: RunReporter;  // Collects the run report of the command that opened the session
+}
+
+export interface BackupOptions {
+  fullScan?: boolean;  // Walk every timeline page instead of stopping at known posts
+  groupName?: string;  // Only process groups matching this name pattern
+}
+
+interface GroupStats {
+  processed: number;
+  skipped: number;
+  updated: number;
+  downloadedImages: number;
+  downloadedVideos: number;
+  failedDownloads: number;
+}
+
+/**
+ * Launch the browser, authenticate and prepare downloaders/exporters
+ * @param {Config} config - Configuration object
+ * @param {RunReporter} reporter - Run report of the command
+ * @param {Object} options - { checkUrl?: string } URL used to validate a saved session
+ * @returns {Promise<BackupSession>}
+ */
+export async function startSession(config: Config, reporter: RunReporter, options: { checkUrl?: string } = {}): Promise<BackupSession> {
+  const performance = getPerformanceSettings(config);
+  configureRateLimits(performance, getSiteSettings(config));
+
+  // Initialize Playwright browser
+  log.debug(chalk.gray('Initializing browser...'));
+  const { browser, page, context, sessionRestored } = await initializeScraper(config);
+
+  // Authenticate (reuses the saved session when still valid)
+  log.info(chalk.blue('\n🔐 Authenticating...\n'));
+  const checkUrl = options.checkUrl ||
+    (Array.isArray(config.groups) && config.groups.length > 0 ? config.groups[0].url : undefined);
+  await ensureAuthenticated(page, context, config, { sessionRestored, checkUrl });
+
+  // Initialize downloader factory for gallery downloads
+  const downloaderFactory = new DownloaderFactory(page, performance);
+  log.debug(chalk.gray('Gallery downloaders initialized'));
+
+  // One exporter per configured output format, all writing into the same month folder
+  const exporters = ExporterFactory.getExporters(config);
+  log.debug(chalk.gray(`Output formats: ${ExporterFactory.getFormats(config).join(', ')}`));
+
+  return { browser, page, context, downloaderFactory, exporters, reporter };
+}
+
+/**
+ * Close the browser of a backup session
+ * @param {BackupSession} session - Session from startSession
+ */
+export async function endSession(session: BackupSession): Promise<void> {
+  await closeScraper(session.browser);
+}
+
+/**
+ * Resolve the groups to process: configured list, or discovered from the sidebar
+ * @param {Page} page - Authenticated Playwright page
+ * @param {Config} config - Configuration object
+ * @param {string} groupName - Optional name pattern to narrow the list (--group)
+ * @returns {Promise<GroupConfig[]>}
+ */
+export async function resolveGroups(page, config: Config, groupName?: string): Promise<GroupConfig[]> {
+  let groups = Array.isArray(config.groups) ? config.groups : [];
+  if (usesGroupDiscovery(config)) {
+    log.info(chalk.blue('\n🔎 Discovering groups...\n'));
+    groups = await getGroups(page, getSiteSettings(config).baseUrl);
+  }
+  groups = filterGroups(groups, config.groupFilters);
+
+  if (groupName) {
+    groups = filterGroups(groups, { include: [groupName] });
+  }
+
+  if (groups.length === 0) {
+    throw new Error(groupName
+      ? `No group matches "${groupName}"`
+      : 'No groups to backup. Check "groups" and "groupFilters" in config.json');
+  }
+
+  return groups;
+}
+
+/**
+ * Back up every configured (or discovered) group
+ * @param {Config} config - Configuration object
+ * @param {BackupOptions} options - Backup options
+ */
+export async function runBackup(config: Config, options: BackupOptions = {}): Promise<void> {
+  const reporter = new RunReporter('backup', config);
+
+  await reporter.track(async () => {
+    const session = await startSession(config, reporter);
+
+    try {
+      const groups = await resolveGroups(session.page, config, options.groupName);
+
+      log.info(chalk.gray(`\nFound ${groups.length} group(s) to backup:\n`));
+      for (const group of groups) {
+        log.info(chalk.gray(`  - ${group.name}${group.archived ? ' (archived)' : ''}`));
+      }
+      log.info('');
+
+      // Process each group
+      for (const group of groups) {
+        await backupGroup(session, config, group, options);
+      }
+    } finally {
+      // Cleanup
+      await endSession(session);
+    }
+  });
+}
+
+/**
+ * Back up one group: scan the timeline, process new/edited posts, download avatars, rebuild indexes
+ * @param {BackupSession} session - Session from startSession
+ * @param {Config} config - Configuration object
+ * @param {GroupConfig} group - Group to back up
+ * @param {BackupOptions} options - Backup options
+ */
+export async function backupGroup(session: BackupSession, config: Config, group: GroupConfig, options: BackupOptions = {}) {
+  // Fail fast if another run is already writing this group's manifest
+  const releaseLock = await lockManifest(group.name);
+  try {
+    await backupLockedGroup(session, config, group, options);
+  } finally {
+    await releaseLock();
+  }
+}
+
+async function backupLockedGroup(session: BackupSession, config: Config, group: GroupConfig, options: BackupOptions) {
+  const { page, context } = session;
+  const startedAt = new Date().toISOString();
+
+  log.info(chalk.blue.bold(`\n📂 Processing group: ${group.name}`));
+  log.debug(chalk.gray(`   URL: ${group.url}\n`));
+
+  // Load manifest for this group
+  const manifest = await loadManifest(group.name);
+  log.info(chalk.gray(`   Loaded manifest (${manifest.metadata.total_posts} posts tracked)`));
+
+  // Navigate to group timeline
+  await navigateToGroup(page, group);
+
+  // Extract all posts with pagination (Phase 1 + 2) - now with parallel extraction
+  // Incremental by default: stop at the first timeline page of already complete posts
+  const posts = await extractAllPosts(page, context, config, group.url, {
+    isKnownPost: (postId) => isPostComplete(manifest, postId),
+    fullScan: options.fullScan
+  });
+
+  // Add groupName to each post
+  posts.forEach(post => {
+    post.groupName = group.name;
+  });
+
+  // Log extracted posts from timeline
+  log.info(chalk.green(`\n   📊 Phase 1 & 2 Complete:`));
+  log.info(chalk.gray(`   Total posts from timeline: ${posts.length}`));
+
+  // Show manifest stats
+  const stats = getManifestStats(manifest);
+  log.info(chalk.gray(`   Already processed: ${stats.complete} posts`));
+  log.info(chalk.gray(`   Failed (will retry): ${stats.failed} posts`));
+  const pending = posts.filter(p => !isPostComplete(manifest, p.id)).length;
+  log.info(chalk.gray(`   Remaining: ${pending} posts\n`));
+  startGroupProgress(group.name, posts.length, pending);
+
+  // Phase 2.5: Collect and download post author avatars from timeline
+  log.info(chalk.blue(`\n   🖼️  Phase 2.5: Avatar Collection & Download\n`));
+
+  // Collect post author avatars from timeline (we have these already)
+  const authorsMap = new Map<string, string>(); // author -> avatarUrl
+  for (const post of posts) {
+    if (post.authorAvatar && post.author) {
+      authorsMap.set(post.author, post.authorAvatar);
+    }
+  }
+  await downloadNewAvatars(config, manifest, group.name, authorsMap, 'post author', session.reporter);
+
+  // Phase 3-4 COMBINED: Streaming orchestration (enrich + download + generate immediately)
+  log.info(chalk.blue(`\n   📝 Phase 3-4: Processing Posts (Streaming)...\n`));
+
+  // Create page pool for parallel post enrichment
+  log.debug(chalk.gray('   Creating page pool for parallel processing...'));
+  const { concurrentPosts } = getPerformanceSettings(config);
+  const pagePool: any[] = [];
+
+  const avatarAuthors = new Map<string, string>(); // Post + comment authors found while enriching
+  const groupStats = createGroupStats();
+  const failedPosts = [];
+
+  // The pages are closed even when processing throws, so they do not stay open for the rest of the run
+  try {
+    for (let i = 0; i < concurrentPosts; i++) {
+      const newPage = await context.newPage();
+      pagePool.push(newPage);
+    }
+    log.debug(chalk.green(`   ✓ Created ${concurrentPosts} page(s) for processing\n`));
+
+    // Use p-limit for concurrent post processing
+    const postLimit = pLimit(concurrentPosts);
+    const processor = new PostProcessor({
+      config,
+      groupName: group.name,
+      manifest,
+      downloaderFactory: session.downloaderFactory,
+      exporters: session.exporters,
+      galleryLimit: pLimit(1)  // GLOBAL: Only 1 gallery download at a time across ALL posts
+    });
+    const idlePages = [...pagePool];  // postLimit never runs more posts than there are pages
+    let fingerprintsBackfilled = 0;
+
+    // Process all posts in parallel
+    const postProcessingPromises = posts.map((post, i) =>
+      postLimit(async () => {
+        const label = `[${i + 1}/${posts.length}]`;
+
+        // Edit detection: compare timeline data with the fingerprint from the last run
+        const changes = detectPostChanges(manifest, post);
+        if (backfillPostFingerprint(manifest, post)) {
+          fingerprintsBackfilled++;
+        }
+
+        // Resume logic: Skip completed, unchanged posts (but verify file exists)
+        if (isPostComplete(manifest, post.id) && changes.length === 0) {
+          // Verify the markdown file actually exists
+          const manifestPost = manifest.posts[post.id];
+          if (manifestPost.markdown_path) {
+            const fs = await import('fs/promises');
+            try {
+              await fs.access(manifestPost.markdown_path);
+              // File exists, safe to skip
+              groupStats.skipped++;
+              finishPostProgress(group.name, label, false);
+              log.debug(chalk.gray(`   ${label} ✓ Skipping completed: ${post.title || post.id}`));
+              return;
+            } catch (err) {
+              // File doesn't exist, need to re-process
+              log.warn(chalk.yellow(`   ${label} ⚠ Manifest says complete but file missing, re-processing...`));
+            }
+          }
+        }
+
+        startPostProgress(group.name, label, post.title || post.id);
+        // Borrow a page no other post is using
+        const postPage = idlePages.pop();
+        let result: PostProcessingResult;
+        try {
+          result = await processor.process(post, { page: postPage, label, changes });
+        } finally {
+          idlePages.push(postPage);
+        }
+        finishPostProgress(group.name, label, true);
+        tallyResult(groupStats, result, avatarAuthors, failedPosts);
+        session.reporter.recordPost(group.name, result);
+      })
+    );
+
+    // Wait for all posts to be processed
+    log.info(chalk.blue('\n   ⏳ Waiting for all posts to complete...'));
+    await Promise.all(postProcessingPromises);
+    log.info(chalk.green('   ✅ All posts processed!\n'));
+
+    // Persist fingerprints added to posts tracked before edit detection existed
+    if (fingerprintsBackfilled > 0) {
+      await saveManifest(group.name, manifest);
+      log.info(chalk.gray(`   Recorded edit-detection fingerprints for ${fingerprintsBackfilled} existing posts`));
+    }
+  } finally {
+    log.debug(chalk.gray('   Closing page pool...'));
+    for (const poolPage of pagePool) {
+      await poolPage.close().catch(() => {});
+    }
+    log.debug(chalk.green('   ✓ Page pool closed\n'));
+  }
+
+  // Phase 4.5: Download post and comment avatars collected during processing
+  if (avatarAuthors.size > 0) {
+    log.info(chalk.blue(`\n   🖼️  Phase 4.5: Comment Avatar Download\n`));
+    await downloadNewAvatars(config, manifest, group.name, avatarAuthors, 'comment author', session.reporter);
+  }
+
+  // Summary
+  const finalStats = getManifestStats(manifest);
+  log.info(chalk.green(`\n   📊 Phase 3-4 Complete:`));
+  log.info(chalk.gray(`   Total posts: ${posts.length}`));
+  log.info(chalk.gray(`   Skipped (already complete): ${groupStats.skipped}`));
+  log.info(chalk.gray(`   Processed: ${groupStats.processed}`));
+  log.info(chalk.gray(`   Updated (edited since last run): ${groupStats.updated}`));
+  log.info(chalk.gray(`   Failed: ${failedPosts.length}`));
+  if (finalStats.partial > 0) {
+    log.info(chalk.yellow(`   Partial (will retry next run): ${finalStats.partial}`));
+  }
+  log.info(chalk.gray(`   Downloaded: ${groupStats.downloadedImages} images, ${groupStats.downloadedVideos} videos`));
+
+  const run = createRunRecord('backup', startedAt, posts.length, groupStats, failedPosts.length);
+  recordRun(manifest, run);
+  session.reporter.recordGroup(group.name, run);
+  await saveManifest(group.name, manifest);
+  await saveFailedPostsDebugFile(config, group.name, failedPosts);
+
+  // Phase 5: Rebuild indexes from the manifest (covers posts from earlier runs too)
+  await rebuildIndexesForGroup(config, group.name, manifest);
+  log.info('');
+}
+
+/**
+ * Process a single post by URL (the `post` command and test-single-post)
+ * @param {Config} config - Configuration object
+ * @param {string} postUrl - Handing post URL
+ * @param {Object} options - { groupName?: string } group whose manifest and folders the post belongs to
+ *                            (found from the manifests when the post was backed up before)
+ */
+export async function runSinglePost(config: Config, postUrl: string, options: { groupName?: string } = {}) {
+  const reporter = new RunReporter('post', config);
+  await reporter.track(() => processSinglePost(config, postUrl, options, reporter));
+}
+
+async function processSinglePost(config: Config, postUrl: string, options: { groupName?: string }, reporter: RunReporter) {
+  const postId = postUrl.split('/').pop() || 'test';
+  const groupName = await resolvePostGroup(config, postId, options.groupName);
+  const releaseLock = await lockManifest(groupName);
+  let session: BackupSession;
+
+  try {
+    session = await startSession(config, reporter, { checkUrl: postUrl });
+    const manifest = await loadManifest(groupName);
+
+    // Create a basic post object from URL (reusing what the manifest knows about it)
+    const known = manifest.posts[postId];
+    const basicPost: Post = {
+      id: postId,
+      url: postUrl,
+      title: known?.title || 'Test Post',
+      author: known?.author || 'Unknown',
+      timestamp: known?.timestamp || new Date().toISOString(),
+      groupName,
+      content: '',
+      images: [],
+      comments: [],
+      likes: 0
+    };
+
+    const stats = await processTrackedPosts(session, config, groupName, manifest, [basicPost], { command: 'post' });
+
+    log.info(chalk.gray('Summary:'));
+    log.info(chalk.gray(`  Images: ${stats.downloadedImages}`));
+    log.info(chalk.gray(`  Videos: ${stats.downloadedVideos}`));
+    log.info(chalk.gray(`  Failed downloads: ${stats.failedDownloads}`));
+    if (manifest.posts[postId]?.markdown_path) {
+      log.info(chalk.gray(`\n  Output: ${manifest.posts[postId].markdown_path}\n`));
+    }
+  } finally {
+    if (session) {
+      await endSession(session);
+    }
+    await releaseLock();
+  }
+}
+
+/**
+ * Find the group a single post is filed under: the group named with --group (a configured or
+ * backed-up group matching it, or a new group with exactly that name), or the group whose
+ * manifest already tracks the post
+ */
+async function resolvePostGroup(config: Config, postId: string, groupName?: string): Promise<string> {
+  const knownGroups = Array.from(new Set([
+    ...(Array.isArray(config.groups) ? config.groups.map(group => group.name) : []),
+    ...await listManifestGroups()
+  ]));
+
+  if (groupName) {
+    const exact = knownGroups.find(name => name.toLowerCase() === groupName.trim().toLowerCase());
+    const matches = filterGroups(knownGroups.map(name => ({ name, url: '' })), { include: [groupName] });
+    if (exact || matches.length === 1) {
+      return exact || matches[0].name;
+    }
+    if (matches.length > 1) {
+      throw new Error(`--group "${groupName}" matches several groups (${matches.map(group => group.name).join(', ')}): use the full name`);
+    }
+    if (groupName.includes('*')) {
+      throw new Error(`--group "${groupName}" matches no configured or backed-up group`);
+    }
+    return groupName.trim();
+  }
+
+  const tracking = [];
+  for (const name of await listManifestGroups()) {
+    if ((await loadManifest(name)).posts[postId]) {
+      tracking.push(name);
+    }
+  }
+  if (tracking.length === 1) {
+    return tracking[0];
+  }
+  throw new Error(tracking.length > 1
+    ? `Post ${postId} is in several groups (${tracking.join(', ')}): choose one with --group "<name>"`
+    : `Post ${postId} has not been backed up before: choose its group with --group "<name>"`);
+}
+
+/**
+ * Retry failed and partial posts and failed avatars straight from the manifests (no timeline scan)
+ * Only assets missing on disk are downloaded again
+ * @param {Config} config - Configuration object
+ * @param {Object} options - { groupName?: string } only retry groups matching this name
+ */
+export async function retryFailed(config: Config, options: { groupName?: string } = {}) {
+  const reporter = new RunReporter('retry-failed', config);
+  await reporter.track(() => retryFailedPosts(config, options, reporter));
+}
+
+async function retryFailedPosts(config: Config, options: { groupName?: string }, reporter: RunReporter) {
+  let groupNames = await listManifestGroups();
+  if (options.groupName) {
+    groupNames = filterGroups(groupNames.map(name => ({ name, url: '' })), { include: [options.groupName] })
+      .map(group => group.name);
+  }
+
+  // Collect retryable posts before launching the browser
+  const work = [];
+  const releaseLocks = [];
+  try {
+    for (const groupName of groupNames) {
+      releaseLocks.push(await lockManifest(groupName));
+      await collectRetryWork(config, groupName, work, reporter);
+    }
+
+    if (work.length === 0) {
+      log.info(chalk.green('\n✅ No failed or partial posts to retry\n'));
+      return;
+    }
+
+    const session = await startSession(config, reporter);
+    try {
+      for (const { groupName, manifest, posts } of work) {
+        log.info(chalk.blue.bold(`\n📂 Retrying ${posts.length} posts in: ${groupName}`));
+        await processTrackedPosts(session, config, groupName, manifest, posts, { command: 'retry-failed', onlyMissingAssets: true });
+        await rebuildIndexesForGroup(config, groupName, manifest);
+
+        const stats = getManifestStats(manifest);
+        log.info(chalk.gray(`   Still failed: ${stats.failed}, still partial: ${stats.partial}`));
+      }
+    } finally {
+      await endSession(session);
+    }
+  } finally {
+    for (const releaseLock of releaseLocks) {
+      await releaseLock();
+    }
+  }
+}
+
+/**
+ * Retry a group's failed avatars and queue its failed/partial posts
+ */
+async function collectRetryWork(config: Config, groupName: string, work: any[], reporter: RunReporter) {
+  const manifest = await loadManifest(groupName);
+  const posts = [];
+
+  // Failed avatars only need their URL, no browser
+  const failedAvatars = getFailedAvatars(manifest);
+  if (failedAvatars.length > 0) {
+    log.info(chalk.blue.bold(`\n📂 Retrying ${failedAvatars.length} avatars in: ${groupName}`));
+    const authors = new Map(failedAvatars.map(avatar => [avatar.author, avatar.url] as [string, string]));
+    await downloadNewAvatars(config, manifest, groupName, authors, 'failed author', reporter);
+  }
+
+  for (const postId of getPostsToRetry(manifest)) {
+    const tracked = manifest.posts[postId];
+
+    // Without a timestamp the post would land in the wrong month folder
+    if (!tracked.timestamp) {
+      log.warn(chalk.yellow(`   ⚠ ${groupName}: no date recorded for ${tracked.title || postId}, the next backup run will retry it`));
+      continue;
+    }
+
+    posts.push({
+      id: postId,
+      url: tracked.url,
+      title: tracked.title,
+      author: tracked.author || 'Unknown',
+      timestamp: tracked.timestamp,
+      groupName,
+      content: '',
+      images: [],
+      comments: [],
+      likes: 0
+    });
+  }
+
+  if (posts.length > 0) {
+    work.push({ groupName, manifest, posts });
+  }
+}
+
+/**
+ * Process a list of posts outside of a timeline scan (no skip logic)
+ */
+async function processTrackedPosts(
+  session: BackupSession,
+  config: Config,
+  groupName: string,
+  manifest: any,
+  posts: Post[],
+  options: { command: ManifestRun['command']; onlyMissingAssets?: boolean }
+) {
+  const startedAt = new Date().toISOString();
+  const processor = new PostProcessor({
+    config,
+    groupName,
+    manifest,
+    downloaderFactory: session.downloaderFactory,
+    exporters: session.exporters
+  });
+  const stats = createGroupStats();
+  const avatarAuthors = new Map<string, string>();
+  const failedPosts = [];
+
+  startGroupProgress(groupName, posts.length, posts.length);
+  for (let i = 0; i < posts.length; i++) {
+    const label = `[${i + 1}/${posts.length}]`;
+    startPostProgress(groupName, label, posts[i].title || posts[i].id);
+    const result = await processor.process(posts[i], {
+      page: session.page,
+      label,
+      onlyMissingAssets: options.onlyMissingAssets
+    });
+    finishPostProgress(groupName, label, true);
+    tallyResult(stats, result, avatarAuthors, failedPosts);
+    session.reporter.recordPost(groupName, result);
+  }
+
+  if (avatarAuthors.size > 0) {
+    await downloadNewAvatars(config, manifest, groupName, avatarAuthors, 'author', session.reporter);
+  }
+
+  const run = createRunRecord(options.command, startedAt, posts.length, stats, failedPosts.length);
+  recordRun(manifest, run);
+  session.reporter.recordGroup(groupName, run);
+  await saveManifest(groupName, manifest);
+  await saveFailedPostsDebugFile(config, groupName, failedPosts);
+
+  return stats;
+}
+
+/**
+ * Download avatars not yet in the manifest and record the results
+ * @param {Config} config - Configuration object
+ * @param {Object} manifest - Group manifest
+ * @param {string} groupName - Group name
+ * @param {Map<string, string>} authors - author -> avatarUrl
+ * @param {string} kind - Label for log messages (e.g., 'post author')
+ * @param {RunReporter} reporter - Run report that collects failed avatars
+ */
+async function downloadNewAvatars(
+  config: Config,
+  manifest: any,
+  groupName: string,
+  authors: Map<string, string>,
+  kind: string,
+  reporter: RunReporter
+) {
+  const year = new Date().getFullYear().toString();
+  log.debug(chalk.gray(`   Found ${authors.size} unique ${kind}s with avatars`));
+
+  // Filter out already downloaded avatars
+  const avatarsToDownload = [];
+  for (const [author, avatarUrl] of authors.entries()) {
+    if (!hasAvatar(manifest, author)) {
+      const filename = generateAvatarFilename(author, avatarUrl);
+      const filePath = getAvatarFilePath(config.outputDir, groupName, year, filename);
+      avatarsToDownload.push({ author, url: avatarUrl, filePath });
+    }
+  }
+
+  if (avatarsToDownload.length === 0) {
+    log.debug(chalk.gray(`   All ${kind} avatars already downloaded`));
+    return;
+  }
+
+  log.info(chalk.gray(`   Downloading ${avatarsToDownload.length} new ${kind} avatars...`));
+
+  // Create Avatars directory
+  await createAvatarsDirectory(config.outputDir, year, groupName);
+
+  // Download avatars in batch
+  const avatarResults = await downloadAvatarsBatch(avatarsToDownload, getPerformanceSettings(config).avatarDownloads);
+
+  // Update manifest with results
+  for (const [author, result] of avatarResults.entries()) {
+    updateAvatar(manifest, author, {
+      url: authors.get(author)!,
+      filename: result.filename,
+      status: result.success ? 'complete' : 'failed',
+      error: result.error
+    });
+  }
+  await saveManifest(groupName, manifest);
+
+  const failures = Array.from(avatarResults.entries())
+    .filter(([_, result]) => !result.success)
+    .map(([author, result]) => ({ author, url: authors.get(author)!, error: result.error }));
+  reporter.recordAvatarFailures(groupName, failures);
+
+  const successCount = Array.from(avatarResults.values()).filter(r => r.success).length;
+  log.info(chalk.green(`   ✓ Downloaded ${successCount}/${avatarsToDownload.length} ${kind} avatars`));
+}
+
+/**
+ * Rebuild the group's month/group indexes and the year/top-level indexes
+ */
+async function rebuildIndexesForGroup(config: Config, groupName: string, manifest: any) {
+  const groupIndexCount = await rebuildGroupIndexes(config, groupName, manifest);
+  const topLevelIndexCount = await rebuildTopLevelIndexes(config);
+  if (groupIndexCount + topLevelIndexCount > 0) {
+    log.info(chalk.gray(`   Rebuilt ${groupIndexCount + topLevelIndexCount} index files`));
+  }
+}
+
+/**
+ * Save debug file if there were failures
+ */
+async function saveFailedPostsDebugFile(config: Config, groupName: string, failedPosts: any[]) {
+  if (failedPosts.length === 0) {
+    return;
+  }
+
+  const debugFile = await getDebugFilePath(config.outputDir, `debug-failed-posts-${getGroupSlug(groupName)}-${Date.now()}.json`);
+  await writeFile(debugFile, JSON.stringify(failedPosts, null, 2));
+  log.warn(chalk.yellow(`\n   ⚠️  ${failedPosts.length} posts failed - debug info: ${debugFile}`));
+  const recordingsDir = getActiveRecordingsDir();
+  if (recordingsDir) {
+    log.warn(chalk.yellow(`   ⚠️  Page recordings (post-<id>.html/.png/.har): ${recordingsDir}`));
+  }
+}
+
+/**
+ * Add a post processing result to the group statistics and collect its avatars and failures
+ */
+function tallyResult(stats: GroupStats, result: PostProcessingResult, avatarAuthors: Map<string, string>, failedPosts: any[]) {
+  stats.processed++;
+  if (result.changes.length > 0) {
+    stats.updated++;
+  }
+
+  for (const asset of result.assets) {
+    if (asset.reused) continue;  // Already on disk from an earlier run
+
+    if (asset.status === 'failed' && (asset.kind === 'image' || asset.kind === 'video')) {
+      stats.failedDownloads++;
+    }
+    if (asset.status !== 'success' || asset.kind === 'external') continue;
+
+    // Gallery and Drive files count by their file type
+    const mediaType = asset.kind === 'image' || asset.kind === 'video' ? asset.kind : getMediaType(asset.fileName);
+    if (mediaType === 'image') {
+      stats.downloadedImages++;
+    } else if (mediaType === 'video') {
+      stats.downloadedVideos++;
+    }
+  }
+
+  for (const [author, avatarUrl] of result.authorAvatars) {
+    avatarAuthors.set(author, avatarUrl);
+  }
+
+  if (result.status === 'failed') {
+    // Capture debug info
+    failedPosts.push({
+      postId: result.postId,
+      postUrl: result.post.url,
+      error: result.error,
+      errorStack: result.errorStack,
+      postData: result.post
+    });
+  }
+}
+
+/**
+ * Build the run record saved in the manifest from the group statistics
+ */
+function createRunRecord(
+  command: ManifestRun['command'],
+  startedAt: string,
+  postsFound: number,
+  stats: GroupStats,
+  postsFailed: number
+): ManifestRun {
+  return {
+    command,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    posts_found: postsFound,
+    posts_processed: stats.processed,
+    posts_updated: stats.updated,
+    posts_skipped: stats.skipped,
+    posts_failed: postsFailed,
+    images_downloaded: stats.downloadedImages,
+    videos_downloaded: stats.downloadedVideos,
+    failed_downloads: stats.failedDownloads
+  };
+}
+
+function createGroupStats(): GroupStats {
+  return {
+    processed: 0,
+    skipped: 0,
+    updated: 0,
+    downloadedImages: 0,
+    downloadedVideos: 0,
+    failedDownloads: 0
+  };
+}
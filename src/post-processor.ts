@@ -0,0 +1,675 @@
+/**
+ * Post Processor
+ *
+ * Processes a single post end to end: enrich, download images/videos/external links,
+ * render every output format and record the result in the group manifest.
+ * Used by the backup pipeline, single-post runs and retries.
+ */
+
+import chalk from 'chalk';
+import { writeFile, mkdir, access, stat } from 'fs/promises';
+import { basename, dirname } from 'path';
+import pLimit from 'p-limit';
+import { getPerformanceSettings } from './config.js';
+import { saveManifest, updatePost, getPostFingerprint, toManifestAssets } from './manifest.js';
+import { enrichSinglePost } from './scraper.js';
+import {
+  createPostDirectories,
+  generateMediaFilename,
+  generatePostFilename,
+  getMediaFilePath,
+  getExternalLinksFilePath,
+  getPostDataFilePath,
+  getRelativeMediaPath,
+  getMediaType,
+  archivePreviousVersion
+} from './file-organizer.js';
+import { downloadMediaBatch } from './downloader.js';
+import { DownloaderFactory, GoogleDriveFileDownloader, GoogleDriveFolderDownloader } from './downloaders/index.js';
+import { hashFile } from './utils.js';
+import { generateExternalLinksMarkdown, writeMarkdownFile } from './markdown-writer.js';
+import {
+  Config,
+  Exporter,
+  Post,
+  Comment,
+  AssetKind,
+  AssetOutcome,
+  ManifestAsset,
+  PostProcessingResult,
+  PostProcessorHooks
+} from './types.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('post-processor');
+
+const VIDEO_URL_PATTERN = /\.(mp4|mov|avi|webm|m4v)(\?|$)/i;
+const MEDIA_DOWNLOADER = 'HandingMedia';  // Post images and videos, fetched directly from Handing
+
+export interface PostProcessorOptions {
+  config: Config;
+  groupName: string;
+  manifest: any;  // Group manifest, updated and saved after every post
+  downloaderFactory: DownloaderFactory;
+  exporters: Exporter[];
+  galleryLimit?: ReturnType<typeof pLimit>;  // Share to allow only 1 gallery download at a time across posts
+  hooks?: PostProcessorHooks;
+}
+
+export class PostProcessor {
+  private config: Config;
+  private groupName: string;
+  private manifest: any;
+  private downloaderFactory: DownloaderFactory;
+  private exporters: Exporter[];
+  private galleryLimit: ReturnType<typeof pLimit>;
+  private hooks: PostProcessorHooks;
+
+  constructor(options: PostProcessorOptions) {
+    this.config = options.config;
+    this.groupName = options.groupName;
+    this.manifest = options.manifest;
+    this.downloaderFactory = options.downloaderFactory;
+    this.exporters = options.exporters;
+    this.galleryLimit = options.galleryLimit || pLimit(1);
+    this.hooks = options.hooks || {};
+  }
+
+  /**
+   * Enrich one post, download its media, render it and update the manifest
+   * Never throws: failures are recorded in the manifest and returned as status 'failed'
+   * @param {Post} post - Post from the timeline (or a basic post built from a URL)
+   * @param {Object} options - { page: Playwright page to use, label?: progress label, changes?: what changed since the last run,
+   *                            onlyMissingAssets?: reuse files already on disk instead of downloading them again }
+   * @returns {Promise<PostProcessingResult>}
+   */
+  async process(
+    post: Post,
+    options: { page: any; label?: string; changes?: string[]; onlyMissingAssets?: boolean }
+  ): Promise<PostProcessingResult> {
+    const { page, label = '', changes = [], onlyMissingAssets = false } = options;
+
+    const result: PostProcessingResult = {
+      postId: post.id,
+      status: 'failed',
+      post,
+      assets: [],
+      media: [],
+      outputPaths: [],
+      failedLinks: [],
+      changes,
+      authorAvatars: new Map<string, string>()
+    };
+
+    log.info(chalk.blue(`\n   📝 ${label} Processing: ${post.title || post.id}`));
+    if (changes.length > 0) {
+      log.info(chalk.yellow(`      ✎ Edited since last run (${changes.join(', ')}), re-rendering...`));
+    }
+
+    try {
+      // STEP 1: Enrich post with full details
+      log.debug(chalk.gray(`      → Extracting full post details...`));
+      const enrichedPost = await enrichSinglePost(page, post, this.config);
+      if (enrichedPost.extractedFrom !== 'full') {
+        // The scraper returns the post it was given when the page fails: rendering that would
+        // overwrite the files of the last successful run with an empty post
+        throw new Error('Could not extract the post page (see the errors above)');
+      }
+      result.post = enrichedPost;
+      log.debug(chalk.green(`      ✓ Extracted content (${enrichedPost.content?.length || 0} chars)`));
+      log.debug(chalk.gray(`      ✓ Found ${enrichedPost.comments?.length || 0} comments`));
+      log.debug(chalk.gray(`      ✓ Found ${enrichedPost.externalLinks?.length || 0} external links`));
+
+      collectAuthorAvatars(enrichedPost, result.authorAvatars);
+
+      // STEP 2: Download media
+      log.debug(chalk.gray(`      → Creating directories...`));
+      const postDirectories = await createPostDirectories(this.config.outputDir, enrichedPost);
+
+      // Retry mode: files from the last run that are still on disk are not downloaded again
+      const reusableAssets = onlyMissingAssets ? await this.findReusableAssets(post.id) : null;
+
+      // Filter out videos - they're downloaded into the Videos folder
+      const images = enrichedPost.images || [];
+      const imageUrls = images.filter(url => typeof url === 'string' && !url.match(VIDEO_URL_PATTERN));
+      const videoUrls = images.filter(url => typeof url === 'string' && url.match(VIDEO_URL_PATTERN));
+      // Pictures attached to comments are downloaded with the post images
+      const commentImageUrls = collectCommentImages(enrichedPost.comments || [])
+        .filter(url => !imageUrls.includes(url));
+
+      await this.downloadMedia(enrichedPost, [...imageUrls, ...commentImageUrls], 'image', result, reusableAssets !== null);
+      for (const item of result.media) {
+        if (commentImageUrls.includes(item.originalUrl)) {
+          item.commentImage = true;
+        }
+      }
+      await this.downloadMedia(enrichedPost, videoUrls, 'video', result, reusableAssets !== null);
+      await this.downloadExternalLinks(enrichedPost, page, result, reusableAssets);
+
+      // STEP 3: Render the post in every configured output format
+      await this.writePost(enrichedPost, postDirectories.root, result);
+
+      // STEP 4: Update manifest immediately (streaming!)
+      // Failed images/videos plus external links that could not be downloaded
+      const failedMedia = result.assets.filter(asset =>
+        asset.status === 'failed' && (asset.kind === 'image' || asset.kind === 'video')
+      ).length;
+      const totalFailures = failedMedia + result.failedLinks.length;
+      result.status = totalFailures > 0 ? 'partial' : 'complete';
+      await this.recordPost(post, result, totalFailures);
+      await this.hooks.onPostWritten?.(result);
+
+      if (result.status === 'partial') {
+        log.warn(chalk.yellow(`\n   ⚠️ ${label} Partial (${totalFailures} failures - will retry): ${enrichedPost.title || enrichedPost.id}\n`));
+      } else {
+        log.info(chalk.green(`\n   ✅ ${label} Completed: ${enrichedPost.title || enrichedPost.id}\n`));
+      }
+
+    } catch (error: any) {
+      log.error(chalk.red(`\n   ❌ ${label} Failed: ${post.title || post.id}`));
+      log.error(chalk.red(`      Error: ${error.message}\n`));
+
+      result.status = 'failed';
+      result.error = error.message;
+      result.errorStack = error.stack;
+
+      // Mark as failed in manifest (the fingerprint and files of the last successful run are kept)
+      updatePost(this.manifest, post.id, {
+        title: post.title,
+        url: post.url,
+        timestamp: post.timestamp,
+        status: 'failed',
+        error: error.message
+      });
+      await saveManifest(this.groupName, this.manifest);
+    }
+
+    return result;
+  }
+
+  /**
+   * Download post images or videos in parallel
+   * @param {boolean} skipExisting - Keep files already on disk instead of downloading them again
+   */
+  private async downloadMedia(post: Post, urls: string[], type: 'image' | 'video', result: PostProcessingResult, skipExisting: boolean) {
+    if (urls.length === 0) {
+      return;
+    }
+
+    const folder = type === 'image' ? 'Images' : 'Videos';
+
+    // Prepare batch download items
+    let batchItems = urls.map((url, j) => {
+      const filename = generateMediaFilename(post, url, type, j);
+      const filePath = getMediaFilePath(this.config.outputDir, post, filename, folder);
+      return { url, filePath, filename };
+    });
+
+    if (skipExisting) {
+      const missingItems = [];
+      const previousAssets: ManifestAsset[] = this.manifest.posts[post.id]?.assets || [];
+      for (const item of batchItems) {
+        // A file flagged by verify (status failed) is downloaded again even if it exists
+        const previous = previousAssets.find(asset => asset.url === item.url);
+        if (previous?.status !== 'failed' && await fileExists(item.filePath)) {
+          result.media.push({
+            fileName: item.filename,
+            originalUrl: item.url,
+            relativePath: getRelativeMediaPath(item.filename),
+            type
+          });
+          await this.addAsset(result, {
+            kind: type,
+            sourceUrl: item.url,
+            downloader: MEDIA_DOWNLOADER,
+            status: 'success',
+            fileName: item.filename,
+            filePath: item.filePath,
+            reused: true,
+            size: previous?.size,
+            contentHash: previous?.content_hash,
+            downloadedAt: previous?.downloaded_at
+          });
+        } else {
+          missingItems.push(item);
+        }
+      }
+
+      if (missingItems.length < batchItems.length) {
+        log.debug(chalk.gray(`      ✓ ${batchItems.length - missingItems.length} ${type}s already on disk`));
+      }
+      batchItems = missingItems;
+      if (batchItems.length === 0) {
+        return;
+      }
+    }
+
+    log.debug(chalk.gray(`      → Downloading ${batchItems.length} ${type}s in parallel...`));
+
+    // Download in parallel
+    const batchResults = await downloadMediaBatch(batchItems, {
+      concurrency: getPerformanceSettings(this.config).mediaDownloads,
+      service: 'handing'  // Post images and videos come from Handing
+    });
+
+    for (const [j, downloadResult] of batchResults.entries()) {
+      const item = batchItems[j];
+
+      if (downloadResult.status === 'success') {
+        result.media.push({
+          fileName: item.filename,
+          originalUrl: item.url,
+          relativePath: getRelativeMediaPath(item.filename),
+          type
+        });
+        await this.addAsset(result, {
+          kind: type, sourceUrl: item.url, downloader: MEDIA_DOWNLOADER, status: 'success', fileName: item.filename, filePath: item.filePath
+        });
+      } else {
+        log.warn(chalk.red(`     ✗ Failed to download ${type} ${j + 1}: ${downloadResult.error}`));
+        await this.addAsset(result, { kind: type, sourceUrl: item.url, downloader: MEDIA_DOWNLOADER, status: 'failed', error: downloadResult.error });
+      }
+    }
+  }
+
+  /**
+   * Download external links (galleries first, direct download as fallback) with deduplication
+   * @param {ManifestAsset[] | null} reusableAssets - Files from the last run still on disk (retry mode), or null
+   */
+  private async downloadExternalLinks(post: Post, page: any, result: PostProcessingResult, reusableAssets: ManifestAsset[] | null) {
+    if (!post.externalLinks || post.externalLinks.length === 0) {
+      return;
+    }
+
+    const config = this.config;
+    const processedUrls = new Set(); // Track URLs we've already processed (safety net)
+
+    log.debug(chalk.gray(`      → Downloading ${post.externalLinks.length} external links/galleries in parallel...`));
+
+    const externalLinksLimit = pLimit(getPerformanceSettings(config).externalLinkDownloads);
+    // Note: Using this.galleryLimit (shared across posts) to prevent page conflicts
+
+    // Process all external links in parallel
+    const externalLinkPromises = post.externalLinks.map((link, j) =>
+      externalLinksLimit(async () => {
+
+        // Skip if we've already processed this URL (deduplication safety net)
+        if (processedUrls.has(link.url)) {
+          log.debug(chalk.gray(`     → Skipping duplicate URL: ${link.name}`));
+          return;
+        }
+        processedUrls.add(link.url);
+
+        // Skip non-downloadable URL schemes (mailto, tel, etc.)
+        if (link.url.match(/^(mailto|tel|sms|skype):/i)) {
+          log.debug(chalk.gray(`     → Skipping non-downloadable URL scheme: ${link.url.split(':')[0]}:// (${link.name})`));
+          return;
+        }
+
+        // Retry mode: keep the files downloaded from this link in the last run
+        const reused = (reusableAssets || []).filter(asset =>
+          asset.gallery_url === link.url || (asset.kind === 'external' && asset.url === link.url)
+        );
+        if (reused.length > 0) {
+          for (const asset of reused) {
+            result.media.push({
+              fileName: asset.file_name,
+              originalUrl: asset.gallery_url ? asset.url : link.url,
+              relativePath: getRelativeMediaPath(asset.file_name),
+              type: asset.gallery_url ? getMediaType(asset.file_name) : 'document',
+              sourceName: link.name,
+              galleryUrl: asset.gallery_url
+            });
+            await this.addAsset(result, {
+              kind: asset.kind,
+              sourceUrl: asset.url,
+              sourceName: link.name,
+              galleryUrl: asset.gallery_url,
+              status: 'success',
+              fileName: asset.file_name,
+              filePath: asset.path,
+              reused: true,
+              size: asset.size,
+              contentHash: asset.content_hash,
+              downloadedAt: asset.downloaded_at
+            });
+          }
+          log.debug(chalk.gray(`     ✓ Already on disk: ${reused.length} files from ${link.name}`));
+          return;
+        }
+
+        try {
+          // Check if this is a gallery link and galleries are enabled
+          const downloader = this.downloaderFactory.getDownloader(link.url);
+          const isGallery = downloader && downloader.getPriority && downloader.getPriority() > 0;
+          const galleryKind: AssetKind = isDriveDownloader(downloader) ? 'drive' : 'gallery';
+          const downloaderName = downloader?.constructor.name;
+          const galleriesEnabled = config.downloaders?.enableGalleries !== false;
+          let downloadSuccessful = false;
+          let lastError = '';
+
+          // DEBUG: Log downloader detection
+          log.debug(chalk.gray(`     → Analyzing link: ${link.url}`));
+          log.debug(chalk.gray(`       Downloader: ${downloader ? downloader.constructor.name : 'null'}`));
+          log.debug(chalk.gray(`       Is gallery: ${isGallery}`));
+          log.debug(chalk.gray(`       Galleries enabled: ${galleriesEnabled}`));
+
+          // Check if no downloader can handle this URL (filtered out as non-downloadable)
+          if (!downloader) {
+            log.warn(chalk.yellow(`     ⚠ Non-downloadable URL (web page, form, etc.): ${link.name}`));
+            result.failedLinks.push(link);
+            await this.addAsset(result, {
+              kind: 'external', sourceUrl: link.url, sourceName: link.name, status: 'skipped', error: 'Non-downloadable URL'
+            });
+            return;
+          }
+
+          // STRATEGY 1: Try gallery downloader if detected
+          if (isGallery && galleriesEnabled) {
+            log.debug(chalk.cyan(`         → Gallery detected: ${link.name}`));
+            const imagesDir = getMediaFilePath(config.outputDir, post, '', 'Images').replace(/\/?$/, '');
+
+            try {
+              // Use the shared gallery semaphore to prevent page conflicts across posts
+              const results = await this.galleryLimit(async () => {
+                return await downloader.download(link.url, {
+                  outputDir: imagesDir,
+                  baseDir: config.outputDir,  // For getMediaFilePath calls
+                  post,
+                  fileIndex: j,
+                  page
+                });
+              });
+
+              // Process gallery results - tag each file with its source gallery
+              let successCount = 0;
+              for (const galleryResult of results) {
+                if (galleryResult.status === 'success') {
+                  result.media.push({
+                    fileName: galleryResult.filename,
+                    originalUrl: galleryResult.url || link.url,
+                    relativePath: getRelativeMediaPath(galleryResult.filename),
+                    type: getMediaType(galleryResult.filename),
+                    sourceName: link.name,
+                    galleryUrl: link.url
+                  });
+                  await this.addAsset(result, {
+                    kind: galleryKind,
+                    sourceUrl: galleryResult.url || link.url,
+                    downloader: downloaderName,
+                    sourceName: link.name,
+                    galleryUrl: link.url,
+                    status: 'success',
+                    fileName: galleryResult.filename,
+                    filePath: galleryResult.localPath || galleryResult.filePath
+                  });
+                  successCount++;
+                  log.debug(chalk.green(`       ✓ Downloaded from gallery: ${galleryResult.filename}`));
+                } else {
+                  log.warn(chalk.yellow(`       ⚠ Failed: ${galleryResult.error}`));
+                }
+              }
+
+              if (successCount > 0) {
+                log.info(chalk.green(`     ✓ Gallery downloaded: ${successCount} images from ${link.name}`));
+                downloadSuccessful = true;
+              } else {
+                lastError = 'Gallery extraction returned no files';
+                log.warn(chalk.yellow(`     ⚠ Gallery extraction failed, will try direct download as fallback...`));
+              }
+            } catch (galleryError) {
+              lastError = galleryError.message;
+              log.warn(chalk.yellow(`     ⚠ Gallery downloader error: ${galleryError.message}`));
+              log.debug(chalk.gray(`     → Attempting fallback to direct file download...`));
+            }
+          }
+
+          // STRATEGY 2: Try direct file download (as primary or fallback)
+          if (!downloadSuccessful && downloader && downloader.getPriority() === 0) {
+            log.debug(chalk.gray(`     → Attempting direct file download: ${link.name}`));
+
+            try {
+              const results = await downloader.download(link.url, {
+                outputDir: config.outputDir,
+                baseDir: config.outputDir,
+                post,
+                fileIndex: j,
+                linkName: link.name,  // Pass link name for filename generation
+                page
+              });
+
+              // Process direct download result
+              if (results.length > 0 && results[0].status === 'success') {
+                const directResult = results[0];
+                result.media.push({
+                  fileName: directResult.filename,
+                  originalUrl: link.url,
+                  relativePath: getRelativeMediaPath(directResult.filename),
+                  type: 'document',
+                  sourceName: link.name
+                });
+                await this.addAsset(result, {
+                  kind: 'external',
+                  sourceUrl: link.url,
+                  downloader: downloaderName,
+                  sourceName: link.name,
+                  status: 'success',
+                  fileName: directResult.filename,
+                  filePath: directResult.localPath || directResult.filePath
+                });
+
+                const method = isGallery ? 'fallback direct download' : 'direct download';
+                log.info(chalk.green(`     ✓ Downloaded via ${method}: ${link.name}`));
+                downloadSuccessful = true;
+              } else if (results.length > 0) {
+                lastError = results[0].error;
+                log.warn(chalk.yellow(`     ⚠ Direct download failed: ${link.name} - ${results[0].error}`));
+              }
+            } catch (directError) {
+              lastError = directError.message;
+              log.warn(chalk.yellow(`     ⚠ Direct download error: ${directError.message}`));
+            }
+          }
+
+          // FINAL: Mark as failed if all strategies failed
+          if (!downloadSuccessful) {
+            result.failedLinks.push(link);
+            await this.addAsset(result, {
+              kind: isGallery ? galleryKind : 'external',
+              sourceUrl: link.url,
+              downloader: downloaderName,
+              sourceName: link.name,
+              status: 'failed',
+              error: lastError || 'All download strategies failed'
+            });
+            log.error(chalk.red(`     ✗ All download strategies failed for: ${link.name}`));
+          }
+
+        } catch (error) {
+          result.failedLinks.push(link);
+          await this.addAsset(result, {
+            kind: 'external', sourceUrl: link.url, sourceName: link.name, status: 'failed', error: error.message
+          });
+          log.error(chalk.red(`     ✗ Unexpected error downloading: ${link.name} - ${error.message}`));
+        }
+      })
+    );
+
+    // Wait for all external link downloads to complete
+    await Promise.all(externalLinkPromises);
+  }
+
+  /**
+   * Render the post with every exporter, save its JSON snapshot and the failed-links file
+   */
+  private async writePost(post: Post, monthDir: string, result: PostProcessingResult) {
+    log.debug(chalk.gray(`      → Rendering post...`));
+
+    // Edited posts: move the previous rendered version to Messages/_history first
+    if (result.changes.length > 0) {
+      await this.archivePreviousVersion(post.id, result.changes);
+    }
+
+    for (const exporter of this.exporters) {
+      const outputPath = await exporter.export(post, result.media, monthDir, this.config);
+      result.outputPaths.push(outputPath);
+      log.info(chalk.green(`      ✓ Saved: ${basename(outputPath)}`));
+    }
+    const postFilename = generatePostFilename(post);
+
+    // Snapshot of the extracted post, so the archive can be re-exported without re-scraping
+    const dataPath = getPostDataFilePath(this.config.outputDir, post, `${postFilename}.json`);
+    await mkdir(dirname(dataPath), { recursive: true });
+    await writeFile(dataPath, JSON.stringify({ post, media: result.media }, null, 2), 'utf-8');
+    result.dataPath = dataPath;
+
+    // Generate external links file only for failed downloads
+    if (result.failedLinks.length > 0) {
+      const linksMarkdown = generateExternalLinksMarkdown(post, result.failedLinks);
+      const linksFilename = `${postFilename}-links.md`;
+      const linksFilePath = getExternalLinksFilePath(this.config.outputDir, post, linksFilename);
+      await writeMarkdownFile(linksFilePath, linksMarkdown);
+      log.warn(chalk.yellow(`      ⚠ Failed links file: ${linksFilename}`));
+    }
+  }
+
+  /**
+   * Move the previously rendered files of an edited post to Messages/_history and record them
+   */
+  private async archivePreviousVersion(postId: string, changes: string[]) {
+    const previous = this.manifest.posts[postId];
+    const previousPaths = previous.output_paths || (previous.markdown_path ? [previous.markdown_path] : []);
+    const archivedAt = new Date().toISOString();
+    const archivedPaths = [];
+
+    for (const previousPath of previousPaths) {
+      const archivedPath = await archivePreviousVersion(previousPath, archivedAt);
+      if (archivedPath) {
+        archivedPaths.push(archivedPath);
+      }
+    }
+
+    if (archivedPaths.length > 0) {
+      previous.history = [...(previous.history || []), {
+        archived_at: archivedAt,
+        reason: changes.join(', '),
+        paths: archivedPaths
+      }];
+      log.info(chalk.gray(`      ✓ Previous version kept in _history (${archivedPaths.length} files)`));
+    }
+  }
+
+  /**
+   * Record a rendered post in the manifest and save it
+   */
+  private async recordPost(post: Post, result: PostProcessingResult, totalFailures: number) {
+    const enrichedPost = result.post;
+    const previous = this.manifest.posts[post.id];
+
+    // Only timeline data can fingerprint a post; keep the stored one for URL-only posts
+    const fingerprint = post.extractedFrom === 'timeline'
+      ? getPostFingerprint(post)
+      : { content_hash: previous?.content_hash, comments_count: previous?.comments_count, likes: previous?.likes };
+
+    updatePost(this.manifest, enrichedPost.id, {
+      title: enrichedPost.title,
+      url: enrichedPost.url,
+      timestamp: enrichedPost.timestamp,
+      author: enrichedPost.author,
+      markdown_path: result.outputPaths[0],
+      output_paths: result.outputPaths,
+      data_path: result.dataPath,
+      images_count: result.media.filter(m => m.type === 'image').length,  // Includes gallery and comment images
+      videos_count: result.media.filter(m => m.type === 'video').length,
+      external_links_count: enrichedPost.externalLinks?.length || 0,
+      failed_downloads: totalFailures,
+      assets: toManifestAssets(result.assets),
+      status: result.status,
+      ...fingerprint,  // Timeline data, compared on the next run
+      history: previous?.history
+    });
+    await saveManifest(this.groupName, this.manifest);
+  }
+
+  /**
+   * Get the downloaded files recorded for a post in the last run that still exist on disk
+   */
+  private async findReusableAssets(postId: string): Promise<ManifestAsset[]> {
+    const previous: ManifestAsset[] = this.manifest.posts[postId]?.assets || [];
+    const reusable = [];
+
+    for (const asset of previous) {
+      if (asset.status === 'complete' && asset.path && asset.file_name && await fileExists(asset.path)) {
+        reusable.push(asset);
+      }
+    }
+
+    return reusable;
+  }
+
+  private async addAsset(result: PostProcessingResult, asset: AssetOutcome) {
+    // Record size and content hash of downloaded files (kept from the manifest for reused ones)
+    if (asset.status === 'success' && asset.filePath && asset.size === undefined) {
+      try {
+        asset.size = (await stat(asset.filePath)).size;
+        asset.contentHash = await hashFile(asset.filePath);
+      } catch (error) {
+        log.warn(chalk.yellow(`       ⚠ Could not read downloaded file ${asset.filePath}: ${error.message}`));
+      }
+    }
+    if (asset.status === 'success' && !asset.reused) {
+      asset.downloadedAt = new Date().toISOString();
+    }
+
+    result.assets.push(asset);
+    await this.hooks.onAssetDownloaded?.(asset, result.post);
+  }
+}
+
+function isDriveDownloader(downloader): boolean {
+  return downloader instanceof GoogleDriveFileDownloader || downloader instanceof GoogleDriveFolderDownloader;
+}
+
+/**
+ * Collect post, comment and reply author avatars (author -> avatarUrl)
+ */
+function collectAuthorAvatars(post: Post, authors: Map<string, string>) {
+  if (post.authorAvatar && post.author) {
+    authors.set(post.author, post.authorAvatar);
+  }
+  collectCommentAvatars(post.comments || [], authors);
+}
+
+/**
+ * Collect the avatars of a comment thread, replies at any depth included
+ */
+function collectCommentAvatars(comments: Comment[], authors: Map<string, string>) {
+  for (const comment of comments) {
+    if (comment.authorAvatar && comment.author) {
+      authors.set(comment.author, comment.authorAvatar);
+    }
+    collectCommentAvatars(comment.replies || [], authors);
+  }
+}
+
+/**
+ * Collect the image URLs attached to a comment thread, replies at any depth included
+ */
+function collectCommentImages(comments: Comment[]): string[] {
+  const urls = new Set<string>();
+  for (const comment of comments) {
+    for (const url of [...(comment.images || []), ...collectCommentImages(comment.replies || [])]) {
+      urls.add(url);
+    }
+  }
+  return Array.from(urls);
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
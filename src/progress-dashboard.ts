@@ -0,0 +1,311 @@
+/**
+ * Progress Dashboard
+ *
+ * Live view of a run drawn below the log in a terminal: a bar per group (posts done out of
+ * the timeline total) with an ETA, the current post, active downloads with bytes and speed,
+ * and gallery scroll progress. Modules report progress through the functions below; while no
+ * dashboard is running (output is not a TTY, --quiet or --plain) they do nothing and the
+ * plain log is all there is
+ */
+
+import chalk from 'chalk';
+import { clearScreenDown, moveCursor } from 'readline';
+import { setConsoleSink } from './logger.js';
+import { formatBytes } from './utils.js';
+
+const REFRESH_INTERVAL = 250;  // ms between redraws
+const SPEED_WINDOW = 5000;  // ms of download history the speed is averaged over
+const BAR_WIDTH = 24;
+const MAX_POSTS_SHOWN = 3;
+const MAX_TRANSFERS_SHOWN = 5;
+
+export interface TransferProgress {
+  update(bytes: number): void;  // Bytes received since the last update
+  done(): void;
+}
+
+export interface GalleryScrollProgress {
+  update(found: number, scrolls: number, idleScrolls: number, idleLimit: number): void;
+  done(): void;
+}
+
+interface GroupProgress {
+  name: string;
+  total: number;  // Posts on the timeline
+  pending: number;  // Posts that need processing (the rest are skipped as complete)
+  done: number;
+  processed: number;
+  processingSince?: number;  // When the first post was processed (ETA baseline)
+}
+
+interface Transfer {
+  label: string;
+  bytes: number;
+  totalBytes?: number;
+}
+
+interface GalleryScroll {
+  name: string;
+  found: number;
+  scrolls: number;
+  idleScrolls: number;
+  idleLimit: number;
+}
+
+const NO_TRANSFER: TransferProgress = { update() {}, done() {} };
+const NO_GALLERY: GalleryScrollProgress = { update() {}, done() {} };
+
+class ProgressDashboard {
+  private groups: GroupProgress[] = [];
+  private posts = new Map<string, string>();  // label -> title of the posts being processed
+  private transfers = new Map<number, Transfer>();
+  private galleries = new Map<number, GalleryScroll>();
+  private nextId = 0;
+  private bytesReceived = 0;
+  private speedSamples: Array<{ time: number; bytes: number }> = [];
+  private drawnLines = 0;
+  private timer: NodeJS.Timeout;
+
+  start() {
+    setConsoleSink((stream, text) => {
+      this.clear();
+      process[stream].write(text + '\n');
+      this.draw();
+    });
+    this.timer = setInterval(() => this.redraw(), REFRESH_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.clear();
+    setConsoleSink(null);
+  }
+
+  startGroup(name: string, total: number, pending: number) {
+    this.groups = this.groups.filter(group => group.name !== name);
+    this.groups.push({ name, total, pending, done: 0, processed: 0 });
+    this.redraw();
+  }
+
+  startPost(groupName: string, label: string, title: string) {
+    const group = this.getGroup(groupName);
+    if (group && !group.processingSince) {
+      group.processingSince = Date.now();
+    }
+    this.posts.set(label, title);
+  }
+
+  finishPost(groupName: string, label: string, processed: boolean) {
+    const group = this.getGroup(groupName);
+    if (group) {
+      group.done++;
+      if (processed) group.processed++;
+    }
+    this.posts.delete(label);
+  }
+
+  trackTransfer(label: string, totalBytes?: number): TransferProgress {
+    const id = this.nextId++;
+    const transfer: Transfer = { label, bytes: 0, totalBytes };
+    this.transfers.set(id, transfer);
+    return {
+      update: bytes => {
+        transfer.bytes += bytes;
+        this.bytesReceived += bytes;
+      },
+      done: () => {
+        this.transfers.delete(id);
+      }
+    };
+  }
+
+  trackGalleryScroll(name: string): GalleryScrollProgress {
+    const id = this.nextId++;
+    const gallery: GalleryScroll = { name, found: 0, scrolls: 0, idleScrolls: 0, idleLimit: 0 };
+    this.galleries.set(id, gallery);
+    return {
+      update: (found, scrolls, idleScrolls, idleLimit) => {
+        Object.assign(gallery, { found, scrolls, idleScrolls, idleLimit });
+      },
+      done: () => {
+        this.galleries.delete(id);
+      }
+    };
+  }
+
+  private getGroup(groupName: string): GroupProgress | undefined {
+    return this.groups.find(group => group.name === groupName);
+  }
+
+  private redraw() {
+    this.clear();
+    this.draw();
+  }
+
+  private clear() {
+    if (this.drawnLines > 0) {
+      moveCursor(process.stdout, 0, -this.drawnLines);
+      clearScreenDown(process.stdout);
+      this.drawnLines = 0;
+    }
+  }
+
+  private draw() {
+    const lines = this.render();
+    if (lines.length === 0) return;
+
+    process.stdout.write(lines.join('\n') + '\n');
+    this.drawnLines = lines.length;
+  }
+
+  private render(): string[] {
+    // Lines wider than the terminal wrap and break the redraw: cut them before coloring
+    const width = Math.max(20, (process.stdout.columns || 80) - 3);
+    const lines: string[] = [];
+    const add = (text: string, color: (text: string) => string) => {
+      lines.push(color(text.length > width ? `${text.slice(0, width - 1)}…` : text));
+    };
+
+    if (this.groups.length > 0 || this.transfers.size > 0 || this.galleries.size > 0) {
+      add('─'.repeat(Math.min(width, 60)), chalk.gray);
+    }
+
+    for (const group of this.groups) {
+      const ratio = group.total > 0 ? group.done / group.total : 1;
+      const filled = Math.round(ratio * BAR_WIDTH);
+      const bar = '█'.repeat(filled) + '░'.repeat(BAR_WIDTH - filled);
+      const status = group.done >= group.total ? '✓' : `ETA ${this.getEta(group)}`;
+      add(
+        `📂 ${group.name}  ${bar}  ${group.done}/${group.total} posts (${Math.round(ratio * 100)}%) · ${status}`,
+        group.done >= group.total ? chalk.green : chalk.blue
+      );
+    }
+
+    for (const [label, title] of Array.from(this.posts).slice(0, MAX_POSTS_SHOWN)) {
+      add(`📝 ${label} ${title}`, chalk.white);
+    }
+
+    for (const gallery of this.galleries.values()) {
+      const idle = gallery.idleScrolls > 0 ? ` · no new items for ${gallery.idleScrolls}/${gallery.idleLimit} scrolls` : '';
+      add(`🖼️  ${gallery.name}: ${gallery.found} items · scroll ${gallery.scrolls}${idle}`, chalk.cyan);
+    }
+
+    if (this.transfers.size > 0) {
+      add(`⬇  ${this.transfers.size} downloads · ${formatBytes(this.getSpeed())}/s`, chalk.magenta);
+      for (const transfer of Array.from(this.transfers.values()).slice(0, MAX_TRANSFERS_SHOWN)) {
+        const size = transfer.totalBytes ? `${formatBytes(transfer.bytes)} / ${formatBytes(transfer.totalBytes)}` : formatBytes(transfer.bytes);
+        add(`   ${transfer.label}  ${size}`, chalk.gray);
+      }
+      if (this.transfers.size > MAX_TRANSFERS_SHOWN) {
+        add(`   ... and ${this.transfers.size - MAX_TRANSFERS_SHOWN} more`, chalk.gray);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Time left for the posts that still need processing, at the pace of the ones done so far
+   */
+  private getEta(group: GroupProgress): string {
+    const remaining = group.pending - group.processed;
+    if (remaining <= 0) return '< 1m';
+    if (!group.processingSince || group.processed === 0) return '…';
+
+    const perPost = (Date.now() - group.processingSince) / group.processed;
+    return formatEta(remaining * perPost);
+  }
+
+  /**
+   * Bytes per second received by all downloads over the last few seconds
+   */
+  private getSpeed(): number {
+    const now = Date.now();
+    this.speedSamples.push({ time: now, bytes: this.bytesReceived });
+    this.speedSamples = this.speedSamples.filter(sample => now - sample.time <= SPEED_WINDOW);
+
+    const first = this.speedSamples[0];
+    const elapsed = (now - first.time) / 1000;
+    return elapsed > 0 ? (this.bytesReceived - first.bytes) / elapsed : 0;
+  }
+}
+
+let dashboard: ProgressDashboard | null = null;
+
+/**
+ * Start drawing the dashboard, if the output is a terminal
+ * @returns {boolean} True if the dashboard is running (false: plain log output)
+ */
+export function startProgressDashboard(): boolean {
+  if (dashboard) return true;
+  if (!process.stdout.isTTY || !process.stderr.isTTY) return false;
+
+  dashboard = new ProgressDashboard();
+  dashboard.start();
+  return true;
+}
+
+/**
+ * Remove the dashboard from the terminal and write log lines directly again
+ */
+export function stopProgressDashboard() {
+  dashboard?.stop();
+  dashboard = null;
+}
+
+/**
+ * Start the progress bar of a group once its timeline has been read
+ * @param {string} groupName - Group name
+ * @param {number} total - Posts found on the timeline
+ * @param {number} pending - Posts that are not complete yet (used for the ETA)
+ */
+export function startGroupProgress(groupName: string, total: number, pending: number) {
+  dashboard?.startGroup(groupName, total, pending);
+}
+
+/**
+ * Show a post as being processed
+ * @param {string} groupName - Group name
+ * @param {string} label - Position label (e.g. "[12/300]")
+ * @param {string} title - Post title
+ */
+export function startPostProgress(groupName: string, label: string, title: string) {
+  dashboard?.startPost(groupName, label, title);
+}
+
+/**
+ * Count a post of a group as done
+ * @param {string} groupName - Group name
+ * @param {string} label - Position label passed to startPostProgress
+ * @param {boolean} processed - False for posts skipped as already complete
+ */
+export function finishPostProgress(groupName: string, label: string, processed: boolean) {
+  dashboard?.finishPost(groupName, label, processed);
+}
+
+/**
+ * Show a download with its progress until done() is called
+ * @param {string} label - File name
+ * @param {number} totalBytes - Expected size (Content-Length), if known
+ * @returns {TransferProgress}
+ */
+export function trackTransfer(label: string, totalBytes?: number): TransferProgress {
+  return dashboard ? dashboard.trackTransfer(label, totalBytes) : NO_TRANSFER;
+}
+
+/**
+ * Show the scroll progress of a gallery that loads its items while scrolling
+ * @param {string} name - What is being scrolled (e.g. "Google Photos album")
+ * @returns {GalleryScrollProgress}
+ */
+export function trackGalleryScroll(name: string): GalleryScrollProgress {
+  return dashboard ? dashboard.trackGalleryScroll(name) : NO_GALLERY;
+}
+
+function formatEta(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '< 1m';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Request Rate Limits
+ *
+ * Global requests-per-second limits for Handing and for Google (page loads and file
+ * downloads), shared by every module. Each request waits for its slot plus a random
+ * jitter so requests don't arrive in a perfectly regular rhythm
+ */
+
+import { sleep } from './utils.js';
+import { PerformanceConfig, SiteConfig } from './types.js';
+
+export type RateLimitedService = 'handing' | 'google';
+
+const GOOGLE_HOSTS = /(^|\.)(google\.com|googleusercontent\.com|goo\.gl|gstatic\.com)$/;
+const HANDING_HOSTS = /(^|\.)handing\.co$/;  // Handing's own media hosts, whatever site is configured
+
+class RateLimiter {
+  private interval: number;  // ms between requests
+  private jitter: number;  // Random extra delay, as a fraction of the interval
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number, jitter: number) {
+    this.interval = 1000 / requestsPerSecond;
+    this.jitter = jitter;
+  }
+
+  async wait() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+
+    const delay = slot - now + Math.random() * this.jitter * this.interval;
+    if (delay > 0) {
+      await sleep(delay);
+    }
+  }
+}
+
+const limiters = new Map<RateLimitedService, RateLimiter>();
+// Hosts of the configured site (config.site), limited as Handing
+let siteHosts = new Set<string>();
+
+/**
+ * Set the request rate limits (a rate of 0 removes the limit)
+ * @param {PerformanceConfig} performance - Resolved performance settings
+ * @param {SiteConfig} site - Resolved site settings: requests to their hosts are limited as Handing
+ */
+export function configureRateLimits(performance: Required<PerformanceConfig>, site: Required<SiteConfig>) {
+  siteHosts = new Set([site.baseUrl, site.loginUrl].map(url => new URL(url).hostname));
+
+  const rates: Record<RateLimitedService, number> = {
+    handing: performance.handingRequestsPerSecond,
+    google: performance.googleRequestsPerSecond
+  };
+
+  limiters.clear();
+  for (const [service, requestsPerSecond] of Object.entries(rates) as [RateLimitedService, number][]) {
+    if (requestsPerSecond > 0) {
+      limiters.set(service, new RateLimiter(requestsPerSecond, performance.requestJitter));
+    }
+  }
+}
+
+/**
+ * Wait until a request to a service is allowed
+ * @param {RateLimitedService} service - 'handing' or 'google' (null: not limited)
+ */
+export async function throttle(service: RateLimitedService | null) {
+  if (service) {
+    await limiters.get(service)?.wait();
+  }
+}
+
+/**
+ * Find the rate-limited service a URL belongs to
+ * @param {string} url - Request URL
+ * @returns {RateLimitedService|null} null for other sites
+ */
+export function getServiceForUrl(url: string): RateLimitedService | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  if (siteHosts.has(hostname) || HANDING_HOSTS.test(hostname)) return 'handing';
+  if (GOOGLE_HOSTS.test(hostname)) return 'google';
+  return null;
+}
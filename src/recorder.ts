@@ -0,0 +1,227 @@
+/**
+ * Page Recorder
+ *
+ * Record mode (--record) saves every post page and gallery the run visits: the DOM as
+ * rendered (<name>.html, scripts and CSRF tokens removed), a full-page screenshot (<name>.png)
+ * and the network traffic of the visit (<name>.har, without cookies or authorization headers).
+ * Post snapshots are named post-<id>.html like the offline test fixtures, so a page that
+ * broke can be copied to test/fixtures/ and served by the fake Handing server
+ */
+
+import { access, mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Page, Request, Response } from 'playwright';
+import { createLogger } from './logger.js';
+
+const log = createLogger('recorder');
+
+// Headers that carry the session or other credentials
+const SENSITIVE_HEADERS = ['cookie', 'set-cookie', 'authorization', 'proxy-authorization', 'x-csrf-token'];
+const MAX_BODY_SIZE = 5 * 1024 * 1024;  // Larger responses are recorded without their content
+const TEXT_CONTENT = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg)/;
+
+export interface Recording {
+  finish(): Promise<void>;
+}
+
+const NO_RECORDING: Recording = { finish: async () => {} };
+
+let recordingsDir: string | null = null;
+
+/**
+ * Turn record mode on (recordings go to dir) or off (null)
+ * @param {string|null} dir - Directory for this run's recordings
+ */
+export function configureRecorder(dir: string | null) {
+  recordingsDir = dir;
+}
+
+/**
+ * Get the directory pages are recorded to
+ * @returns {string|null} null when record mode is off
+ */
+export function getActiveRecordingsDir(): string | null {
+  return recordingsDir;
+}
+
+/**
+ * Start recording the network traffic of a page visit; finish() saves it with the DOM and a screenshot
+ * Call before page.goto so the page's own request is in the HAR. Does nothing unless record mode is on
+ * @param {Page} page - Playwright page about to visit the URL
+ * @param {string} name - File name without extension (e.g. "post-3797322")
+ * @returns {Promise<Recording>}
+ */
+export async function startRecording(page: Page, name: string): Promise<Recording> {
+  if (!recordingsDir) {
+    return NO_RECORDING;
+  }
+
+  await mkdir(recordingsDir, { recursive: true });
+  const basePath = await getFreePath(join(recordingsDir, name.replace(/[^\w.-]+/g, '_')));
+  const startedAt = new Date();
+  const entries: Array<Promise<HarEntry>> = [];
+
+  const onFinished = (request: Request) => entries.push(createHarEntry(request));
+  const onFailed = (request: Request) => entries.push(createHarEntry(request, request.failure()?.errorText));
+  page.on('requestfinished', onFinished);
+  page.on('requestfailed', onFailed);
+
+  return {
+    finish: async () => {
+      page.off('requestfinished', onFinished);
+      page.off('requestfailed', onFailed);
+
+      try {
+        const url = page.url();
+        await writeFile(`${basePath}.html`, await getSnapshot(page));
+        await page.screenshot({ path: `${basePath}.png`, fullPage: true });
+
+        const recorded = (await Promise.allSettled(entries))
+          .filter((result): result is PromiseFulfilledResult<HarEntry> => result.status === 'fulfilled')
+          .map(result => result.value)
+          .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+        await writeFile(`${basePath}.har`, JSON.stringify(createHar(url, startedAt, recorded), null, 2));
+
+        log.debug(`  🎥 Recorded ${url} to ${basePath}.{html,png,har}`);
+      } catch (error) {
+        log.warn(`  ⚠ Could not record ${basePath}: ${error.message}`);
+      }
+    }
+  };
+}
+
+/**
+ * The rendered DOM, without scripts (the recording is the page as it was, not as it would
+ * render again) and without CSRF tokens
+ */
+async function getSnapshot(page: Page): Promise<string> {
+  const html = await page.evaluate(() => {
+    const root = document.documentElement.cloneNode(true) as HTMLElement;
+    root.querySelectorAll('script, link[rel="preload"], link[rel="prefetch"], link[rel="modulepreload"]').forEach(el => el.remove());
+    root.querySelectorAll('meta[name="csrf-token"], meta[name="csrf-param"]').forEach(el => el.remove());
+    root.querySelectorAll('input[name="authenticity_token"]').forEach(el => el.setAttribute('value', ''));
+    return root.outerHTML;
+  });
+  return `<!DOCTYPE html>\n<!-- Recorded from ${page.url()} on ${new Date().toISOString()} -->\n${html}\n`;
+}
+
+// ============================================================================
+// HAR (HTTP Archive 1.2)
+// ============================================================================
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: object;
+  response: object;
+  cache: object;
+  timings: object;
+  _error?: string;
+}
+
+function createHar(url: string, startedAt: Date, entries: HarEntry[]) {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'handing-backup', version: '1.0.0' },
+      pages: [{ startedDateTime: startedAt.toISOString(), id: 'page_1', title: url, pageTimings: {} }],
+      entries: entries.map(entry => ({ pageref: 'page_1', ...entry }))
+    }
+  };
+}
+
+async function createHarEntry(request: Request, error?: string): Promise<HarEntry> {
+  const url = new URL(request.url());
+  const timing = request.timing();
+  const response = error ? null : await request.response();
+  const postData = request.postData();
+
+  const entry: HarEntry = {
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: Math.max(0, timing.responseEnd),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(await request.allHeaders()),
+      queryString: Array.from(url.searchParams, ([name, value]) => ({ name, value })),
+      ...(postData && {
+        postData: {
+          mimeType: (await request.headerValue('content-type')) || '',
+          // Form posts can carry a password
+          text: /password|authenticity_token/i.test(postData) ? '[removed]' : postData
+        }
+      }),
+      headersSize: -1,
+      bodySize: postData ? Buffer.byteLength(postData) : 0
+    },
+    response: response ? await createHarResponse(response) : {
+      status: 0,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1
+    },
+    cache: {},
+    timings: {
+      send: 0,
+      wait: Math.max(0, timing.responseStart - Math.max(0, timing.requestStart)),
+      receive: Math.max(0, timing.responseEnd - Math.max(0, timing.responseStart))
+    }
+  };
+
+  if (error) {
+    entry._error = error;
+  }
+  return entry;
+}
+
+async function createHarResponse(response: Response) {
+  const headers = await response.allHeaders();
+  const mimeType = headers['content-type'] || '';
+
+  let content: { size: number; mimeType: string; text?: string } = { size: Number(headers['content-length'] || 0), mimeType };
+  if (TEXT_CONTENT.test(mimeType)) {
+    // Redirects and some cached responses have no body
+    const body = await response.body().catch(() => null);
+    if (body) {
+      content = { size: body.length, mimeType, ...(body.length <= MAX_BODY_SIZE && { text: body.toString('utf8') }) };
+    }
+  }
+
+  return {
+    status: response.status(),
+    statusText: response.statusText(),
+    httpVersion: 'HTTP/1.1',
+    cookies: [],
+    headers: toHarHeaders(headers),
+    content,
+    redirectURL: headers['location'] || '',
+    headersSize: -1,
+    bodySize: content.size
+  };
+}
+
+function toHarHeaders(headers: Record<string, string>) {
+  return Object.entries(headers)
+    .filter(([name]) => !SENSITIVE_HEADERS.includes(name.toLowerCase()))
+    .map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * A path not used yet: the same gallery or post can be visited twice in a run
+ */
+async function getFreePath(basePath: string): Promise<string> {
+  for (let i = 1; ; i++) {
+    const candidate = i === 1 ? basePath : `${basePath}-${i}`;
+    const taken = await access(`${candidate}.html`).then(() => true, () => false);
+    if (!taken) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * Run Reports
+ *
+ * Collects what a backup, post or retry-failed run did (posts, bytes per downloader, errors)
+ * and saves it as JSON in <outputDir>/.handing/reports, plus a readable Run-Report.md
+ * at the top of the archive with the trend of the last runs
+ */
+
+import chalk from 'chalk';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getReportFilePath, getStateDir } from './state-dir.js';
+import { formatBytes } from './utils.js';
+import {
+  Config,
+  ManifestRun,
+  PostProcessingResult,
+  RunReport,
+  RunReportError,
+  RunReportGroup,
+  SelectorHealthReport
+} from './types.js';
+import { createLogger } from './logger.js';
+import { getSelectorHealth } from './selectors.js';
+
+const log = createLogger('run-report');
+
+const REPORT_FILE_PATTERN = /^run-.+\.json$/;
+const TREND_RUNS = 10;  // Runs shown in the trend tables of Run-Report.md
+const MAX_ERROR_EXAMPLES = 5;  // Messages listed per error type in Run-Report.md
+
+export class RunReporter {
+  private report: RunReport;
+  private config: Config;
+
+  constructor(command: ManifestRun['command'], config: Config) {
+    this.config = config;
+    this.report = {
+      command,
+      status: 'complete',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      durationMs: 0,
+      outputDir: config.outputDir,
+      groups: [],
+      totals: { postsNew: 0, postsUpdated: 0, postsSkipped: 0, postsFailed: 0, filesDownloaded: 0, bytesDownloaded: 0 },
+      downloaders: {},
+      errorsByType: {},
+      errors: []
+    };
+  }
+
+  /**
+   * Run a command and save the report when it ends, also when it fails
+   * @param {Function} command - The run
+   * @returns {Promise} What the command returns
+   */
+  async track<T>(command: () => Promise<T>): Promise<T> {
+    try {
+      const value = await command();
+      await this.finish();
+      return value;
+    } catch (error) {
+      this.report.status = 'failed';
+      this.report.error = error.message;
+      this.addError({ type: classifyError(error.message), source: 'run', message: error.message });
+      await this.finish();
+      throw error;
+    }
+  }
+
+  /**
+   * Add the downloads and errors of one processed post
+   * @param {string} groupName - Group name
+   * @param {PostProcessingResult} result - Result from PostProcessor
+   */
+  recordPost(groupName: string, result: PostProcessingResult) {
+    const group = this.getGroup(groupName);
+
+    for (const asset of result.assets) {
+      if (asset.reused || asset.status === 'skipped' || !asset.downloader) continue;
+
+      const downloader = this.report.downloaders[asset.downloader] ||= { files: 0, failed: 0, bytes: 0 };
+      if (asset.status === 'success') {
+        downloader.files++;
+        downloader.bytes += asset.size || 0;
+        group.filesDownloaded++;
+        group.bytesDownloaded += asset.size || 0;
+      } else {
+        downloader.failed++;
+        this.addError({
+          type: classifyError(asset.error),
+          source: asset.downloader,
+          message: asset.error || 'Unknown error',
+          group: groupName,
+          postId: result.postId,
+          url: asset.sourceUrl
+        });
+      }
+    }
+
+    if (result.status === 'failed') {
+      this.addError({
+        type: classifyError(result.error),
+        source: 'post',
+        message: result.error || 'Unknown error',
+        group: groupName,
+        postId: result.postId,
+        url: result.post.url
+      });
+    }
+  }
+
+  /**
+   * Add the avatars that could not be downloaded
+   * @param {string} groupName - Group name
+   * @param {Array} failures - { author, url, error }
+   */
+  recordAvatarFailures(groupName: string, failures: Array<{ author: string; url: string; error?: string }>) {
+    for (const failure of failures) {
+      this.addError({
+        type: classifyError(failure.error),
+        source: 'avatar',
+        message: `${failure.author}: ${failure.error || 'Unknown error'}`,
+        group: groupName,
+        url: failure.url
+      });
+    }
+  }
+
+  /**
+   * Add the post counts of a finished group (the run record saved in its manifest)
+   * @param {string} groupName - Group name
+   * @param {ManifestRun} run - Run statistics of the group
+   */
+  recordGroup(groupName: string, run: ManifestRun) {
+    const group = this.getGroup(groupName);
+    group.postsFound = run.posts_found;
+    group.postsNew = Math.max(0, run.posts_processed - run.posts_updated - run.posts_failed);
+    group.postsUpdated = run.posts_updated;
+    group.postsSkipped = run.posts_skipped;
+    group.postsFailed = run.posts_failed;
+  }
+
+  /**
+   * Write the JSON report and Run-Report.md (a report that cannot be written never fails the run)
+   */
+  private async finish() {
+    const report = this.report;
+    report.finishedAt = new Date().toISOString();
+    report.durationMs = Date.parse(report.finishedAt) - Date.parse(report.startedAt);
+
+    report.totals = {
+      postsNew: sum(report.groups, 'postsNew'),
+      postsUpdated: sum(report.groups, 'postsUpdated'),
+      postsSkipped: sum(report.groups, 'postsSkipped'),
+      postsFailed: sum(report.groups, 'postsFailed'),
+      filesDownloaded: sum(report.groups, 'filesDownloaded'),
+      bytesDownloaded: sum(report.groups, 'bytesDownloaded')
+    };
+    report.selectorHealth = getSelectorHealth();
+
+    try {
+      const reportPath = await getReportFilePath(this.config.outputDir, `run-${report.startedAt.replace(/[:.]/g, '-')}.json`);
+      await writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+      const history = await loadRunReports(this.config.outputDir, TREND_RUNS);
+      const markdownPath = join(this.config.outputDir, 'Run-Report.md');
+      await writeFile(markdownPath, renderRunReport(report, history), 'utf-8');
+
+      log.info(chalk.gray(`\n📋 Run report: ${markdownPath}`));
+    } catch (error) {
+      log.warn(chalk.yellow(`\n⚠ Could not write the run report: ${error.message}`));
+    }
+  }
+
+  private getGroup(groupName: string): RunReportGroup {
+    let group = this.report.groups.find(g => g.groupName === groupName);
+    if (!group) {
+      group = {
+        groupName,
+        postsFound: 0,
+        postsNew: 0,
+        postsUpdated: 0,
+        postsSkipped: 0,
+        postsFailed: 0,
+        filesDownloaded: 0,
+        bytesDownloaded: 0
+      };
+      this.report.groups.push(group);
+    }
+    return group;
+  }
+
+  private addError(error: RunReportError) {
+    this.report.errors.push(error);
+
+    const entry = this.report.errorsByType[error.type] ||= { count: 0, sources: {} };
+    entry.count++;
+    entry.sources[error.source] = (entry.sources[error.source] || 0) + 1;
+  }
+}
+
+/**
+ * Classify an error message so the same failure from different posts groups together
+ * @param {string} message - Error message
+ * @returns {string} Error type (timeout, http_<status>, network, auth, no_files, not_a_file or other)
+ */
+export function classifyError(message?: string): string {
+  const text = message || '';
+
+  const httpStatus = text.match(/\bHTTP (\d{3})\b/);
+  if (httpStatus) return `http_${httpStatus[1]}`;
+  if (/timeout|timed out|aborted/i.test(text)) return 'timeout';
+  if (/ENOTFOUND|ECONNRESET|ECONNREFUSED|EAI_AGAIN|ETIMEDOUT|net::ERR_|fetch failed|socket hang up/i.test(text)) return 'network';
+  if (/auth|sign[_ ]?in|log ?in|permission|access denied|forbidden/i.test(text)) return 'auth';
+  if (/no (media|files?) found|returned no files|folder is empty/i.test(text)) return 'no_files';
+  if (/web page|error page|not a file/i.test(text)) return 'not_a_file';
+  return 'other';
+}
+
+/**
+ * Load the most recent run reports of an archive
+ * @param {string} outputDir - Base output directory
+ * @param {number} limit - Maximum number of reports
+ * @returns {Promise<RunReport[]>} Oldest first
+ */
+export async function loadRunReports(outputDir: string, limit: number): Promise<RunReport[]> {
+  const reportsDir = join(getStateDir(outputDir), 'reports');
+  const files = (await readdir(reportsDir).catch(() => []))
+    .filter(file => REPORT_FILE_PATTERN.test(file))
+    .sort()
+    .slice(-limit);
+
+  const reports = [];
+  for (const file of files) {
+    try {
+      reports.push(JSON.parse(await readFile(join(reportsDir, file), 'utf-8')));
+    } catch {
+      // Unreadable report, leave it out of the trend
+    }
+  }
+  return reports;
+}
+
+/**
+ * Render a run report as markdown, with the trend of earlier runs
+ * @param {RunReport} report - Report of this run
+ * @param {RunReport[]} history - Recent reports, oldest first (including this one)
+ * @returns {string} Markdown content
+ */
+export function renderRunReport(report: RunReport, history: RunReport[]): string {
+  const statusIcon = report.status === 'complete' ? '✅' : '❌';
+  const lines = [
+    '# Run Report',
+    '',
+    `**Command**: ${report.command} · **Status**: ${statusIcon} ${report.status}`,
+    '',
+    `**Started**: ${report.startedAt} · **Finished**: ${report.finishedAt} · **Duration**: ${formatDuration(report.durationMs)}`,
+    ''
+  ];
+
+  if (report.error) {
+    lines.push(`> Run stopped: ${report.error}`, '');
+  }
+
+  lines.push('## Groups', '');
+  if (report.groups.length === 0) {
+    lines.push('No groups processed.', '');
+  } else {
+    lines.push('| Group | Found | New | Updated | Skipped | Failed | Files | Size |');
+    lines.push('|-------|------:|----:|--------:|--------:|-------:|------:|-----:|');
+    for (const group of report.groups) {
+      lines.push(
+        `| ${group.groupName} | ${group.postsFound} | ${group.postsNew} | ${group.postsUpdated} | ${group.postsSkipped} | ` +
+        `${group.postsFailed} | ${group.filesDownloaded} | ${formatBytes(group.bytesDownloaded)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('## Downloads', '');
+  const downloaders = Object.entries(report.downloaders);
+  if (downloaders.length === 0) {
+    lines.push('Nothing downloaded.', '');
+  } else {
+    lines.push('| Downloader | Files | Failed | Size |');
+    lines.push('|------------|------:|-------:|-----:|');
+    for (const [name, stats] of downloaders) {
+      lines.push(`| ${name} | ${stats.files} | ${stats.failed} | ${formatBytes(stats.bytes)} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Errors', '');
+  const errorTypes = Object.entries(report.errorsByType).sort((a, b) => b[1].count - a[1].count);
+  if (errorTypes.length === 0) {
+    lines.push('No errors.', '');
+  } else {
+    for (const [type, entry] of errorTypes) {
+      const sources = Object.entries(entry.sources).map(([source, count]) => `${source}: ${count}`).join(', ');
+      lines.push(`### ${type} (${entry.count})`, '', `Sources: ${sources}`, '');
+      const examples = report.errors.filter(error => error.type === type);
+      for (const error of examples.slice(0, MAX_ERROR_EXAMPLES)) {
+        const where = [error.group, error.postId].filter(Boolean).join(' / ');
+        lines.push(`- ${error.message}${where ? ` (${where})` : ''}`);
+      }
+      if (examples.length > MAX_ERROR_EXAMPLES) {
+        lines.push(`- ... and ${examples.length - MAX_ERROR_EXAMPLES} more`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (report.selectorHealth) {
+    lines.push(...renderSelectorHealth(report.selectorHealth));
+  }
+
+  if (history.length > 1) {
+    lines.push(...renderTrends(history));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Pages checked per page type and the expected elements missing on them
+ */
+function renderSelectorHealth(health: SelectorHealthReport): string[] {
+  const lines = ['## Selector Health', '', `Profile: ${health.profile}`, ''];
+  const pageTypes = Object.entries(health.pages);
+  if (pageTypes.length === 0) {
+    return [...lines, 'No pages checked.', ''];
+  }
+
+  lines.push('| Page | Checked | Missing |');
+  lines.push('|------|--------:|---------|');
+  for (const [pageType, entry] of pageTypes) {
+    const missing = Object.entries(entry.missing).map(([name, selector]) => `${name} (${selector.count})`).join(', ');
+    lines.push(`| ${pageType} | ${entry.checked} | ${missing || '-'} |`);
+  }
+  lines.push('');
+
+  for (const [pageType, entry] of pageTypes) {
+    for (const [name, selector] of Object.entries(entry.missing)) {
+      lines.push(`- ${pageType} / ${name}: ${selector.examples.join(', ')}`);
+    }
+  }
+  if (lines[lines.length - 1] !== '') {
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Trend tables: one row per run, and failed downloads per downloader across runs
+ */
+function renderTrends(history: RunReport[]): string[] {
+  const lines = [`## Last ${history.length} Runs`, ''];
+  lines.push('| Started | Command | Status | New | Updated | Failed posts | Files | Size | Errors |');
+  lines.push('|---------|---------|--------|----:|--------:|-------------:|------:|-----:|-------:|');
+  for (const run of [...history].reverse()) {
+    lines.push(
+      `| ${run.startedAt} | ${run.command} | ${run.status} | ${run.totals.postsNew} | ${run.totals.postsUpdated} | ` +
+      `${run.totals.postsFailed} | ${run.totals.filesDownloaded} | ${formatBytes(run.totals.bytesDownloaded)} | ${run.errors.length} |`
+    );
+  }
+  lines.push('');
+
+  const names = Array.from(new Set(history.flatMap(run => Object.keys(run.downloaders || {})))).sort();
+  if (names.length === 0) {
+    return lines;
+  }
+
+  lines.push('### Failed Downloads per Downloader', '');
+  lines.push('Failed/attempted downloads, oldest run first.', '');
+  lines.push(`| Downloader | ${history.map(run => run.startedAt.slice(0, 16).replace('T', ' ')).join(' | ')} |`);
+  lines.push(`|------------|${history.map(() => '---:').join('|')}|`);
+  for (const name of names) {
+    const cells = history.map(run => {
+      const stats = run.downloaders?.[name];
+      return stats ? `${stats.failed}/${stats.files + stats.failed}` : '-';
+    });
+    lines.push(`| ${name} | ${cells.join(' | ')} |`);
+  }
+  lines.push('');
+
+  // A downloader that failed everything in the last run but worked before has probably broken
+  const latest = history[history.length - 1];
+  for (const name of names) {
+    const stats = latest.downloaders?.[name];
+    const workedBefore = history.slice(0, -1).some(run => (run.downloaders?.[name]?.files || 0) > 0);
+    if (stats && stats.files === 0 && stats.failed > 0 && workedBefore) {
+      lines.push(`> ⚠ ${name} failed every download in this run but worked in earlier runs.`, '');
+    }
+  }
+
+  return lines;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function sum(groups: RunReportGroup[], field: keyof RunReportGroup): number {
+  return groups.reduce((total, group) => total + (group[field] as number), 0);
+}
@@ -5,11 +5,29 @@
  */
 
 import { chromium } from 'playwright';
+import { access, chmod, mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { getDebugFilePath, getDefaultSessionPath } from './state-dir.js';
+import { createLogger } from './logger.js';
+import { getPerformanceSettings, getSiteSettings, DEFAULT_SITE } from './config.js';
+import { throttle } from './rate-limiter.js';
+import { getPassword } from './credentials.js';
+import { startRecording } from './recorder.js';
+import { anySelector, resolveSelectors, recordMissingSelectors, ResolvedSelectors } from './selectors.js';
+import { Comment } from './types.js';
+import { sanitizeFilename } from './utils.js';
+
+const log = createLogger('scraper');
+
+// "Ver más respuestas" / "load more comments" controls without one of the moreComments classes
+const MORE_COMMENTS_TEXT = /ver (más|mas) (respuestas|comentarios)|ver (respuestas|comentarios) anteriores|cargar más (respuestas|comentarios)|load more (comments|replies)/i;
+const MAX_COMMENT_EXPANSIONS = 50;  // Clicks per post, in case a control never goes away
 
 /**
  * Initialize Playwright browser and page
+ * Restores the persisted browser session (cookies + localStorage) when available
  * @param {Object} config - Configuration object
- * @returns {Promise<{browser: Browser, page: Page, context: BrowserContext}>}
+ * @returns {Promise<{browser: Browser, page: Page, context: BrowserContext, sessionRestored: boolean}>}
  */
 export async function initializeScraper(config) {
   const browser = await chromium.launch({
@@ -20,17 +38,34 @@ export async function initializeScraper(config) {
     ]
   });
 
-  const context = await browser.newContext({
+  const contextOptions = {
     userAgent: config.scraping.userAgent,
     acceptDownloads: true // Required for downloading media files
-  });
+  };
+
+  let context;
+  let sessionRestored = false;
+  const sessionPath = getSessionPath(config);
+
+  if (config.scraping.reuseSession !== false && await fileExists(sessionPath)) {
+    try {
+      context = await browser.newContext({ ...contextOptions, storageState: sessionPath });
+      sessionRestored = true;
+    } catch (error) {
+      log.warn(`  ⚠ Could not restore saved session (${error.message}), starting fresh`);
+    }
+  }
+
+  if (!context) {
+    context = await browser.newContext(contextOptions);
+  }
 
   const page = await context.newPage();
 
   // Set a reasonable timeout (2 minutes) instead of default 30s
   await page.setDefaultNavigationTimeout(120000);
 
-  return { browser, page, context };
+  return { browser, page, context, sessionRestored };
 }
 
 /**
@@ -41,40 +76,145 @@ export async function closeScraper(browser) {
   await browser.close();
 }
 
+/**
+ * Get the path of the persisted browser session file
+ * @param {Object} config - Configuration object
+ * @returns {string} Absolute session file path
+ */
+export function getSessionPath(config) {
+  if (config.scraping.sessionFile) {
+    return config.scraping.sessionFile;
+  }
+  return getDefaultSessionPath(config.outputDir);
+}
+
+/**
+ * Authenticate, reusing the persisted session while it is still valid
+ * Falls back to the login form only when there is no session or it has expired
+ * @param {Page} page - Playwright page instance
+ * @param {BrowserContext} context - Browser context whose session is persisted
+ * @param {Object} config - Configuration object
+ * @param {Object} options - { sessionRestored, checkUrl } (checkUrl: a group timeline to validate against)
+ * @returns {Promise<'session' | 'login'>} How the run was authenticated
+ */
+export async function ensureAuthenticated(page, context, config, options: any = {}) {
+  const { sessionRestored = false, checkUrl = `${getSiteSettings(config).baseUrl}/` } = options;
+
+  if (sessionRestored) {
+    log.debug('  → Checking saved session...');
+    if (await isSessionValid(page, checkUrl)) {
+      log.info('  ✓ Saved session is still valid, skipping login');
+      await saveSession(context, config);
+      return 'session';
+    }
+    log.info('  → Saved session expired, logging in again...');
+  }
+
+  await authenticate(page, config.email, await getPassword(config), config.outputDir, getSiteSettings(config).loginUrl);
+
+  if (config.scraping.reuseSession !== false) {
+    await saveSession(context, config);
+    log.debug('  ✓ Session saved for next run');
+  }
+
+  return 'login';
+}
+
+/**
+ * Check whether the current browser session is logged in by loading a page
+ * that requires authentication (Handing redirects to the login form otherwise)
+ * @param {Page} page - Playwright page instance
+ * @param {string} checkUrl - URL that requires authentication (e.g., a group timeline)
+ * @returns {Promise<boolean>} True if the session is authenticated
+ */
+async function isSessionValid(page, checkUrl) {
+  try {
+    await throttle('handing');
+    await page.goto(checkUrl, { waitUntil: 'networkidle', timeout: 30000 });
+
+    if (page.url().includes('/users/sign_in')) {
+      return false;
+    }
+
+    const hasLoginForm = await page.$(anySelector('loginEmail'));
+    return !hasLoginForm;
+  } catch (error) {
+    log.warn(`  ⚠ Session check failed: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Persist cookies and localStorage so later runs can skip the login form
+ * @param {BrowserContext} context - Browser context
+ * @param {Object} config - Configuration object
+ */
+async function saveSession(context, config) {
+  if (config.scraping.reuseSession === false) {
+    return;
+  }
+
+  const sessionPath = getSessionPath(config);
+  await mkdir(dirname(sessionPath), { recursive: true });
+  // Session cookies are as good as a password - keep them private from the first byte written
+  // (mode only applies when the file is created, so an older session file is chmod-ed too)
+  const state = await context.storageState();
+  await writeFile(sessionPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+  await chmod(sessionPath, 0o600);
+}
+
+/**
+ * Check if a file exists
+ * @param {string} filePath - File path
+ * @returns {Promise<boolean>}
+ */
+async function fileExists(filePath) {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Authenticate with Handing.co
  * @param {Page} page - Playwright page instance
  * @param {string} email - User email
  * @param {string} password - User password
+ * @param {string} outputDir - Archive directory (a screenshot of a failed login goes to its .handing/debug)
+ * @param {string} loginUrl - Login form URL
  * @returns {Promise<boolean>} Success status
  */
-export async function authenticate(page, email, password) {
+export async function authenticate(page, email, password, outputDir, loginUrl = DEFAULT_SITE.loginUrl) {
   try {
-    console.log('  → Navigating to login page...');
-    await page.goto('https://web.handing.co/users/sign_in', {
+    log.debug('  → Navigating to login page...');
+    await throttle('handing');
+    await page.goto(loginUrl, {
       waitUntil: 'networkidle'
     });
 
     // Wait for the form to be visible
-    console.log('  → Waiting for login form...');
-    await page.waitForSelector('#user_email', {
+    log.debug('  → Waiting for login form...');
+    await page.waitForSelector(anySelector('loginEmail'), {
       timeout: 10000
     });
+    const selectors = await resolveSelectors(page, 'login');
 
     // Fill in email field
-    console.log('  → Filling email...');
-    await page.fill('#user_email', email);
+    log.debug('  → Filling email...');
+    await page.fill(selectors.loginEmail, email);
 
     // Fill in password field
-    console.log('  → Filling password...');
-    await page.fill('#user_password', password);
+    log.debug('  → Filling password...');
+    await page.fill(selectors.loginPassword, password);
 
     // Submit form by pressing Enter on password field
     // (note: password field has class "do-submit-form-on-press-enter")
-    console.log('  → Submitting form...');
+    log.debug('  → Submitting form...');
     await Promise.all([
       page.waitForNavigation({ timeout: 15000 }),
-      page.press('#user_password', 'Enter')
+      page.press(selectors.loginPassword, 'Enter')
     ]);
 
     // Verify we're no longer on the login page
@@ -82,33 +222,115 @@ export async function authenticate(page, email, password) {
       throw new Error('Still on login page - credentials may be incorrect');
     }
 
-    console.log('  ✓ Authentication successful!');
+    log.info('  ✓ Authentication successful!');
     return true;
 
   } catch (error) {
-    console.error('  ✗ Authentication failed:', error.message);
+    log.error(`  ✗ Authentication failed: ${error.message}`);
 
     // Take a screenshot for debugging
-    await page.screenshot({ path: 'login-error.png' });
-    console.log('  → Screenshot saved to login-error.png for debugging');
+    const screenshotPath = await getDebugFilePath(outputDir, 'login-error.png');
+    await page.screenshot({ path: screenshotPath });
+    log.info(`  → Screenshot saved to ${screenshotPath} for debugging`);
 
     throw new Error(`Authentication failed: ${error.message}`);
   }
 }
 
 /**
- * Get list of groups from sidebar
- * @param {Page} page - Playwright page instance
- * @returns {Promise<Array>} Array of group objects
+ * Get list of groups from sidebar ("Mis grupos"), including archived groups
+ * from past school years
+ * @param {Page} page - Playwright page instance (must be authenticated)
+ * @param {string} baseUrl - Handing web app URL
+ * @returns {Promise<Array<{name: string, url: string, archived: boolean}>>} Array of group objects
  */
-export async function getGroups(page) {
-  // TODO: Implement group extraction
-  // Will need to:
-  // 1. Find "Mis grupos" section
-  // 2. Extract group names and URLs
-  // 3. Return structured data
-
-  throw new Error('Group extraction not yet implemented');
+export async function getGroups(page, baseUrl = DEFAULT_SITE.baseUrl) {
+  log.info('  → Discovering groups from sidebar...');
+
+  // The sidebar is rendered on every newmodel page; land on the home page if needed
+  if (!page.url().startsWith(baseUrl)) {
+    await throttle('handing');
+    await page.goto(`${baseUrl}/`, {
+      waitUntil: 'networkidle'
+    });
+  }
+
+  await page.waitForSelector(anySelector('groupLink'), {
+    timeout: 15000
+  });
+
+  // Archived groups live in a collapsed sidebar section - expand it before extracting
+  const archiveToggles = page.locator(anySelector('sidebarToggle'))
+    .filter({ hasText: /archivad|años anteriores|ciclos anteriores/i });
+  const toggleCount = await archiveToggles.count();
+
+  for (let i = 0; i < toggleCount; i++) {
+    try {
+      await archiveToggles.nth(i).click({ timeout: 2000 });
+      await page.waitForTimeout(500);
+    } catch (error) {
+      // Toggle not clickable (already expanded or hidden) - extract what is visible
+    }
+  }
+
+  // Links inside the sidebar when there are any, otherwise any group link on the page
+  const selectors = await resolveSelectors(page, 'groups');
+
+  const links = await page.$$eval(selectors.groupLink, (anchors, selectors) => {
+    return anchors.map((anchor: any) => {
+      // Find the heading of the sidebar section this link belongs to
+      let sectionTitle = '';
+      let node = anchor.closest('ul');
+      while (node && !sectionTitle) {
+        let sibling = node.previousElementSibling;
+        while (sibling && !sectionTitle) {
+          const text = sibling.textContent?.trim() || '';
+          if (text.length > 0 && text.length < 80) {
+            sectionTitle = text;
+          }
+          sibling = sibling.previousElementSibling;
+        }
+        node = node.parentElement?.closest('ul');
+      }
+
+      const archivedContainer = anchor.closest(selectors.archivedGroup);
+
+      return {
+        name: (anchor.getAttribute('title') || anchor.textContent || '').trim().replace(/\s+/g, ' '),
+        href: anchor.href,
+        sectionTitle,
+        archived: !!archivedContainer || /archivad|anteriores/i.test(sectionTitle)
+      };
+    });
+  }, selectors);
+
+  // Normalize to timeline URLs and deduplicate by group ID
+  const groupsById = new Map();
+  for (const link of links) {
+    // Group names become folder and manifest names, so "/" and other path characters must go
+    const name = sanitizeFilename(link.name);
+    const match = link.href.match(/\/groups\/(\d+)/);
+    if (!match || !name || /^\.+$/.test(name)) continue;
+
+    const groupId = match[1];
+    const existing = groupsById.get(groupId);
+    if (existing) {
+      existing.archived = existing.archived || link.archived;
+      continue;
+    }
+
+    groupsById.set(groupId, {
+      name,
+      url: `${baseUrl}/groups/${groupId}/timeline`,
+      archived: link.archived
+    });
+  }
+
+  const groups = Array.from(groupsById.values());
+  const archivedCount = groups.filter(g => g.archived).length;
+  log.info(`  ✓ Found ${groups.length} groups (${archivedCount} archived)`);
+
+  return groups;
 }
 
 /**
@@ -117,17 +339,18 @@ export async function getGroups(page) {
  * @param {Object} group - Group object with URL
  */
 export async function navigateToGroup(page, group) {
-  console.log(`  → Navigating to ${group.url}...`);
+  log.debug(`  → Navigating to ${group.url}...`);
+  await throttle('handing');
   await page.goto(group.url, {
     waitUntil: 'networkidle'
   });
 
   // Wait for timeline to load
-  await page.waitForSelector('div.vertical-timeline-block', {
+  await page.waitForSelector(anySelector('timelineBlock'), {
     timeout: 15000
   });
 
-  console.log('  ✓ Timeline loaded');
+  log.debug('  ✓ Timeline loaded');
 }
 
 /**
@@ -137,19 +360,21 @@ export async function navigateToGroup(page, group) {
  * @returns {Promise<Array>} Array of post objects
  */
 export async function extractPostsFromTimeline(page, config) {
-  console.log('  → Extracting posts from current page...');
+  log.debug('  → Extracting posts from current page...');
 
-  const posts = await page.$$eval('div.vertical-timeline-block', (blocks) => {
+  const selectors = await resolveSelectors(page, 'timeline');
+
+  const posts = await page.$$eval(selectors.timelineBlock, (blocks, selectors) => {
     return blocks.map(block => {
       try {
         // Find the post container with data-post-id
-        const postElement = block.querySelector('div.js-post[data-post-id]');
+        const postElement = block.querySelector(selectors.timelinePost);
         if (!postElement) return null;
 
         const postId = postElement.getAttribute('data-post-id');
 
         // Extract title (could be in h2 or h4)
-        const titleLink = block.querySelector('a.post-title-link');
+        const titleLink = block.querySelector(selectors.postTitleLink);
         const title = titleLink ? titleLink.textContent.trim() : '';
         const postUrl = titleLink ? titleLink.href : '';
 
@@ -157,28 +382,28 @@ export async function extractPostsFromTimeline(page, config) {
         // (no need to extract from timeline since we always visit the full post)
 
         // Extract timestamp from title attribute (contains full date)
-        const timestampElement = block.querySelector('small.created-at-timeline');
+        const timestampElement = block.querySelector(selectors.timelineTimestamp);
         const timestamp = timestampElement ? timestampElement.getAttribute('title') : '';
 
         // Extract truncated content
-        const contentElement = block.querySelector('span.content');
+        const contentElement = block.querySelector(selectors.timelineContent);
         const content = contentElement ? contentElement.textContent.trim() : '';
 
         // Extract likes count
-        const likesElement = block.querySelector('[data-likes]');
+        const likesElement = block.querySelector(selectors.likes);
         const likes = likesElement ? parseInt(likesElement.getAttribute('data-likes') || '0', 10) : 0;
 
         // Extract comments count
-        const commentsElement = block.querySelector('[data-comments-count]');
+        const commentsElement = block.querySelector(selectors.commentsCount);
         const commentsCount = commentsElement ? parseInt(commentsElement.getAttribute('data-comments-count') || '0', 10) : 0;
 
         // Extract image URLs from slider
         // Images can be in img tags OR in div elements with data attributes
         const images = [];
-        const slickSlides = block.querySelectorAll('.slick-slide');
+        const slickSlides = block.querySelectorAll(selectors.carouselSlide);
         slickSlides.forEach(slide => {
           // Try div with data attributes first (carousel view)
-          const imgDiv = slide.querySelector('.post-main-image-container-cover, div[data-large-url], div[data-original-url]');
+          const imgDiv = slide.querySelector(selectors.carouselImage);
           if (imgDiv) {
             const imageUrl = imgDiv.getAttribute('data-original-url') ||
                             imgDiv.getAttribute('data-large-url') ||
@@ -218,9 +443,9 @@ export async function extractPostsFromTimeline(page, config) {
         return null;
       }
     }).filter(post => post !== null);
-  });
+  }, selectors);
 
-  console.log(`  ✓ Extracted ${posts.length} posts from timeline`);
+  log.info(`  ✓ Extracted ${posts.length} posts from timeline`);
   return posts;
 }
 
@@ -231,7 +456,7 @@ export async function extractPostsFromTimeline(page, config) {
  */
 export async function hasMorePages(page) {
   try {
-    await page.waitForSelector('#see-more-posts-btn', { timeout: 2000 });
+    await page.waitForSelector(anySelector('seeMorePosts'), { timeout: 2000 });
     return true;
   } catch (error) {
     // Button not found, no more pages
@@ -255,10 +480,19 @@ async function extractSinglePage(context, groupUrl, pageNumber, config) {
     const pageUrl = pageNumber === 1 ? groupUrl : `${groupUrl}?page=${pageNumber}`;
 
     // Navigate to page
+    await throttle('handing');
     await page.goto(pageUrl, { waitUntil: 'networkidle', timeout: 30000 });
 
-    // Wait for timeline blocks
-    await page.waitForSelector('div.vertical-timeline-block', { timeout: 15000 });
+    // Wait for timeline blocks, or the "Aún sin novedades" message past the last page
+    const timelineBlock = anySelector('timelineBlock');
+    await page.waitForFunction((timelineBlock) => {
+      return !!document.querySelector(timelineBlock) ||
+             document.body.textContent.includes('sin novedades');
+    }, timelineBlock, { timeout: 15000 });
+
+    if (!(await page.$(timelineBlock))) {
+      return []; // Empty page, return empty array
+    }
 
     // Small delay for content to settle
     await page.waitForTimeout(config.scraping.scrollDelay || 1000);
@@ -268,71 +502,80 @@ async function extractSinglePage(context, groupUrl, pageNumber, config) {
 
     return posts;
   } catch (error) {
-    // Check if page is empty
-    try {
-      const isEmpty = await page.$eval('body', (body) => {
-        return body.textContent.includes('Aún sin novedades') ||
-               body.textContent.includes('sin novedades');
-      }).catch(() => false);
 
-      if (isEmpty) {
-        return []; // Empty page, return empty array
-      }
-    } catch (e) {
-      // Ignore check errors
-    }
-
-    console.error(`  ⚠ Error extracting page ${pageNumber}:`, error.message);
+    log.warn(`  ⚠ Error extracting page ${pageNumber}: ${error.message}`);
     return []; // Return empty on error
   } finally {
     await page.close();
   }
 }
 
+/**
+ * Check if every post on a timeline page is already known (incremental mode)
+ * @param {Array} posts - Posts extracted from one timeline page
+ * @param {Function} isKnownPost - Returns true for post IDs already complete in the manifest
+ * @returns {boolean} True if the page is non-empty and contains only known posts
+ */
+function isFullyKnownPage(posts, isKnownPost) {
+  return posts.length > 0 && posts.every(post => isKnownPost(post.id));
+}
+
 /**
  * Extract all posts from group timeline with pagination
+ *
+ * Incremental mode (when options.isKnownPost is given and options.fullScan is not set)
+ * stops paginating once a full page contains only posts already complete in the manifest.
  * @param {Page} page - Playwright page instance
  * @param {BrowserContext} context - Playwright browser context for parallel page extraction
  * @param {Object} config - Configuration object
  * @param {string} groupUrl - Base group URL
+ * @param {Object} options - { isKnownPost?: (postId) => boolean, fullScan?: boolean }
  * @returns {Promise<Array>} Array of all post objects from all pages
  */
-export async function extractAllPosts(page, context, config, groupUrl) {
-  console.log('  → Starting pagination with parallel extraction...');
+export async function extractAllPosts(page, context, config, groupUrl, options: any = {}) {
+  const { isKnownPost = null, fullScan = false } = options;
+  const incremental = !!isKnownPost && !fullScan;
+
+  log.info(`  → Starting pagination with parallel extraction (${incremental ? 'incremental' : 'full scan'})...`);
 
   // Phase 1: Extract page 1 to check if pagination exists
-  console.log('  → Extracting page 1...');
+  log.debug('  → Extracting page 1...');
   const page1Posts = await extractPostsFromTimeline(page, config);
-  console.log(`     Found ${page1Posts.length} posts on page 1`);
+  log.debug(`     Found ${page1Posts.length} posts on page 1`);
 
   const allPosts = [...page1Posts];
 
+  if (incremental && isFullyKnownPage(page1Posts, isKnownPost)) {
+    log.info('  ✓ Page 1 contains only known posts, stopping (incremental scan)');
+    log.info(`  ✓ Total posts extracted: ${allPosts.length} from 1 page`);
+    return allPosts;
+  }
+
   // Check if there are more pages
   const hasPagination = await hasMorePages(page);
 
   if (!hasPagination) {
-    console.log('  ✓ No more pages, pagination complete');
-    console.log(`  ✓ Total posts extracted: ${allPosts.length} from 1 page`);
+    log.info('  ✓ No more pages, pagination complete');
+    log.info(`  ✓ Total posts extracted: ${allPosts.length} from 1 page`);
     return allPosts;
   }
 
   // Phase 2: Parallel extraction of remaining pages in batches
-  console.log('  → Multiple pages detected, using parallel batch extraction...');
+  log.debug('  → Multiple pages detected, using parallel batch extraction...');
 
-  const BATCH_SIZE = 5; // Process 5 pages concurrently (reduced from 10 to prevent network throttling)
-  const MAX_PAGES = 500; // Safety limit (stop if we exceed this)
+  const { timelinePagesPerBatch: batchSize, maxTimelinePages: maxPages } = getPerformanceSettings(config);
   let currentPage = 2;
   let consecutiveEmptyBatches = 0;
   let totalPagesExtracted = 1;
 
-  while (currentPage <= MAX_PAGES) {
+  while (currentPage <= maxPages) {
     // Create batch of page numbers
     const batchPageNumbers = Array.from(
-      { length: BATCH_SIZE },
+      { length: batchSize },
       (_, i) => currentPage + i
     );
 
-    console.log(`  → Extracting pages ${batchPageNumbers[0]}-${batchPageNumbers[batchPageNumbers.length - 1]} in parallel...`);
+    log.debug(`  → Extracting pages ${batchPageNumbers[0]}-${batchPageNumbers[batchPageNumbers.length - 1]} in parallel...`);
 
     // Extract all pages in batch concurrently
     const batchPromises = batchPageNumbers.map(pageNum =>
@@ -344,6 +587,7 @@ export async function extractAllPosts(page, context, config, groupUrl) {
     // Process results
     let postsFoundInBatch = 0;
     let emptyPagesInBatch = 0;
+    let reachedKnownPosts = false;
 
     batchResults.forEach((posts, idx) => {
       const pageNum = batchPageNumbers[idx];
@@ -351,23 +595,34 @@ export async function extractAllPosts(page, context, config, groupUrl) {
         allPosts.push(...posts);
         postsFoundInBatch += posts.length;
         totalPagesExtracted++;
-        console.log(`     Page ${pageNum}: ${posts.length} posts`);
+        log.debug(`     Page ${pageNum}: ${posts.length} posts`);
+
+        if (incremental && !reachedKnownPosts && isFullyKnownPage(posts, isKnownPost)) {
+          reachedKnownPosts = true;
+          log.debug(`     Page ${pageNum} contains only known posts`);
+        }
       } else {
         emptyPagesInBatch++;
       }
     });
 
-    console.log(`     Batch total: ${postsFoundInBatch} posts from ${BATCH_SIZE - emptyPagesInBatch} pages`);
+    log.debug(`     Batch total: ${postsFoundInBatch} posts from ${batchSize - emptyPagesInBatch} pages`);
+
+    // Incremental: everything older than a fully known page is already archived
+    if (reachedKnownPosts) {
+      log.info('  ✓ Reached already archived posts, stopping (incremental scan)');
+      break;
+    }
 
     // Stop if entire batch was empty
-    if (emptyPagesInBatch === BATCH_SIZE) {
-      console.log('  ✓ Reached end of timeline (empty batch detected)');
+    if (emptyPagesInBatch === batchSize) {
+      log.info('  ✓ Reached end of timeline (empty batch detected)');
       break;
     }
 
     // Stop if majority of batch was empty (likely at the end, but allow some network errors)
-    if (emptyPagesInBatch >= BATCH_SIZE * 0.6) {
-      console.log(`  ✓ Reached end of timeline (${emptyPagesInBatch}/${BATCH_SIZE} pages empty)`);
+    if (emptyPagesInBatch >= batchSize * 0.6) {
+      log.info(`  ✓ Reached end of timeline (${emptyPagesInBatch}/${batchSize} pages empty)`);
       break;
     }
 
@@ -378,10 +633,10 @@ export async function extractAllPosts(page, context, config, groupUrl) {
       consecutiveEmptyBatches++;
     }
 
-    currentPage += BATCH_SIZE;
+    currentPage += batchSize;
   }
 
-  console.log(`  ✓ Total posts extracted: ${allPosts.length} from ${totalPagesExtracted} page(s)`);
+  log.info(`  ✓ Total posts extracted: ${allPosts.length} from ${totalPagesExtracted} page(s)`);
   return allPosts;
 }
 
@@ -405,46 +660,53 @@ export async function enrichSinglePost(page, post, config) {
  * @returns {Promise<Object>} Enriched post object with full details
  */
 export async function extractFullPostDetails(page, post, config) {
+  // Record mode: keep the page as visited, also (especially) when extraction fails
+  const recording = await startRecording(page, `post-${post.id}`);
+
   try {
-    console.log(`     → Extracting full details for post ${post.id}...`);
+    log.debug(`     → Extracting full details for post ${post.id}...`);
 
     // Navigate to the individual post page
+    await throttle('handing');
     await page.goto(post.url, {
       waitUntil: 'networkidle',
       timeout: 30000
     });
 
     // Wait for the post content to load
+    const contentSelector = anySelector('postContent');
     try {
-      await page.waitForSelector('div.sanitized-post-content', {
+      await page.waitForSelector(contentSelector, {
         timeout: 10000
       });
     } catch (err) {
-      console.error(`     ✗ ERROR: Selector 'div.sanitized-post-content' not found for post ${post.id}`);
-      console.error(`     ✗ Post URL: ${post.url}`);
-      console.error(`     ✗ This post will have truncated content!`);
+      log.warn(`     ✗ ERROR: Selector '${contentSelector}' not found for post ${post.id}`);
+      log.warn(`     ✗ Post URL: ${post.url}`);
+      log.warn(`     ✗ This post will have truncated content!`);
       throw new Error(`Content selector not found after 10s timeout`);
     }
 
+    const selectors = await resolveSelectors(page, 'post');
+
     // Extract all author information from individual post page (single source of truth)
     // From the .media structure: <a class="user-name"><b>Author Name</b></a>
-    const authorName = await page.$eval('a.user-name b, a.user-name',
+    const authorName = await page.$eval(selectors.postAuthorName,
       (el: any) => el.textContent.trim()
     ).catch(() => 'Unknown');
 
     // Avatar: <a class="forum-avatar"><img class="img-circle" src="..."></a>
-    const authorAvatar = await page.$eval('a.forum-avatar img.img-circle',
+    const authorAvatar = await page.$eval(selectors.postAuthorAvatar,
       (img: any) => img.getAttribute('src')
     ).catch(() => undefined);
 
     // Role: <small>Maestra Celadora y Maestra de Inglés</small>
-    const authorRole = await page.$eval('.media-body .media-text .comment-text small',
+    const authorRole = await page.$eval(selectors.postAuthorRole,
       (small: any) => small.textContent.trim()
     ).catch(() => undefined);
 
     // Extract full content with HTML formatting (simplified to avoid tsx transpilation issues)
-    const contentWithStyles = await page.evaluate(() => {
-      const element = document.querySelector('div.sanitized-post-content');
+    const contentWithStyles = await page.evaluate((contentSelector) => {
+      const element = document.querySelector(contentSelector);
       if (!element) {
         throw new Error('Content element not found');
       }
@@ -454,9 +716,9 @@ export async function extractFullPostDetails(page, post, config) {
         html: element.innerHTML.trim(),
         css: ''
       };
-    }).catch((err) => {
-      console.error(`     ✗ WARNING: Failed to extract content for post ${post.id}: ${err.message}`);
-      console.error(`     ✗ Falling back to plain text extraction...`);
+    }, selectors.postContent).catch((err) => {
+      log.warn(`     ✗ WARNING: Failed to extract content for post ${post.id}: ${err.message}`);
+      log.warn(`     ✗ Falling back to plain text extraction...`);
       return { html: post.content, css: '' };
     });
 
@@ -465,11 +727,11 @@ export async function extractFullPostDetails(page, post, config) {
     let media = [];
 
     // Try carousel first
-    const carouselImages = await page.$$eval('.slick-slide', (slides) => {
+    const carouselImages = await page.$$eval(selectors.carouselSlide, (slides, carouselImage) => {
       const urls = [];
       slides.forEach(slide => {
         // Try to find image in div with data attributes (carousel view)
-        const imgDiv = slide.querySelector('.post-main-image-container-cover, div[data-large-url], div[data-original-url]');
+        const imgDiv = slide.querySelector(carouselImage);
         if (imgDiv) {
           const imageUrl = imgDiv.getAttribute('data-original-url') ||
                           imgDiv.getAttribute('data-large-url') ||
@@ -492,13 +754,13 @@ export async function extractFullPostDetails(page, post, config) {
         }
       });
       return urls;
-    }).catch(() => []);
+    }, selectors.carouselImage).catch(() => []);
 
     media = carouselImages;
 
     // If no carousel images, try single image
     if (media.length === 0) {
-      const singleImage = await page.$eval('a.post-img-container[data-large-url], a.post-img-container[data-original-url]', (link) => {
+      const singleImage = await page.$eval(selectors.singleImage, (link) => {
         return link.getAttribute('data-original-url') ||
                link.getAttribute('data-large-url');
       }).catch(() => null);
@@ -509,7 +771,7 @@ export async function extractFullPostDetails(page, post, config) {
     }
 
     // Extract videos from video-preview sections
-    const videos = await page.$$eval('div.video-preview video', (videoElements) => {
+    const videos = await page.$$eval(selectors.video, (videoElements) => {
       const videoUrls = [];
       videoElements.forEach(video => {
         const source = video.querySelector('source');
@@ -536,12 +798,13 @@ export async function extractFullPostDetails(page, post, config) {
     });
 
     // Extract external links from attachments section and content (with deduplication)
-    const externalLinks = await page.evaluate(() => {
+    const siteHost = new URL(getSiteSettings(config).baseUrl).host;
+    const externalLinks = await page.evaluate(({ siteHost, selectors }) => {
       const links = [];
       const urlToName = new Map(); // Track best name for each URL (deduplication)
 
       // PASS 1: Extract from attachments section
-      const attachments = document.querySelectorAll('div.attachments a.attachment-file-name');
+      const attachments = document.querySelectorAll(selectors.attachmentLink);
       attachments.forEach((link: any) => {
         const url = link.href;
         const name = link.textContent.trim();
@@ -557,13 +820,13 @@ export async function extractFullPostDetails(page, post, config) {
 
       // PASS 2: Extract ALL external links from content
       // This catches links that are embedded in the post body (like Google Photos albums)
-      const contentLinks = document.querySelectorAll('div.sanitized-post-content a[href]');
+      const contentLinks = document.querySelectorAll(selectors.postContentLink);
       contentLinks.forEach((link: any) => {
         const url = link.href;
         const name = link.textContent.trim() || link.href; // Use URL as name if no text
 
         // Only include if it's an external link (not handing.co)
-        if (url && !url.includes('handing.co')) {
+        if (url && !url.includes('handing.co') && new URL(url).host !== siteHost) {
           // Update map if this is a new URL or has a better name
           if (!urlToName.has(url)) {
             urlToName.set(url, name);
@@ -585,10 +848,70 @@ export async function extractFullPostDetails(page, post, config) {
       });
 
       return result;
-    }).catch(() => []);
+    }, { siteHost, selectors }).catch(() => []);
 
     // Extract all comments with nested replies
-    const comments = await extractComments(page).catch(() => []);
+    const comments = await extractComments(page, selectors).catch(() => []);
+
+    // Polls (and sign-up lists), the read confirmation and who liked the post, only with
+    // scraping.extractInteractions: their selectors are not confirmed on recorded Handing pages yet
+    let polls = undefined;
+    let readConfirmation = undefined;
+    let likedBy = undefined;
+    if (config.scraping.extractInteractions) {
+      // The read confirmation button is never clicked, that would confirm it
+      ({ polls, readConfirmation } = await page.evaluate((selectors) => {
+        const polls = Array.from(document.querySelectorAll(selectors.poll)).map((pollElement: any) => {
+          const options = Array.from(pollElement.querySelectorAll(selectors.pollOption)).map((optionElement: any) => {
+            const votesElement = optionElement.querySelector(selectors.pollOptionVotes);
+            const votes = votesElement
+              ? votesElement.getAttribute('data-votes') || votesElement.textContent.replace(/\D+/g, '')
+              : '';
+            const voters = Array.from(optionElement.querySelectorAll(selectors.pollOptionVoter))
+              .map((voter: any) => voter.textContent.trim())
+              .filter(name => name.length > 0);
+
+            return {
+              text: optionElement.querySelector(selectors.pollOptionText)?.textContent?.trim() || '',
+              votes: parseInt(votes || '0', 10),
+              voters,
+              selected: optionElement.matches(selectors.pollOptionSelected) || !!optionElement.querySelector('input:checked')
+            };
+          });
+
+          return {
+            question: pollElement.querySelector(selectors.pollQuestion)?.textContent?.trim() || '',
+            options,
+            multipleChoice: !!pollElement.querySelector('input[type="checkbox"]'),
+            closed: pollElement.matches(selectors.pollClosed),
+            totalVotes: options.reduce((sum, option) => sum + option.votes, 0)
+          };
+        });
+
+        const confirmationElement = document.querySelector(selectors.readConfirmation);
+        let readConfirmation = undefined;
+        if (confirmationElement) {
+          const confirmed = confirmationElement.matches(selectors.readConfirmed);
+          const dateElement = confirmationElement.querySelector('[title]');
+          const readCount = confirmationElement.getAttribute('data-read-count');
+          const recipientsCount = confirmationElement.getAttribute('data-recipients-count');
+          readConfirmation = {
+            confirmed,
+            confirmedAt: confirmed && dateElement ? dateElement.getAttribute('title') : undefined,
+            readCount: readCount ? parseInt(readCount, 10) : undefined,
+            recipientsCount: recipientsCount ? parseInt(recipientsCount, 10) : undefined
+          };
+        }
+
+        return { polls, readConfirmation };
+      }, selectors).catch(() => ({ polls: [], readConfirmation: undefined })));
+
+      // Last: opening the likes list can leave a dialog over the page
+      likedBy = await extractLikers(page, selectors).catch((error) => {
+        log.debug(`     ⚠ Could not get who liked post ${post.id}: ${error.message}`);
+        return [];
+      });
+    }
 
     // Return enriched post object with complete author information from individual post
     return {
@@ -602,132 +925,228 @@ export async function extractFullPostDetails(page, post, config) {
       externalLinks,
       comments,
       commentsCount: comments.length, // Update with actual extracted count
+      likedBy,
+      polls,
+      readConfirmation,
       extractedFrom: 'full' // Mark that this has full details
     };
 
   } catch (error) {
-    console.error(`     ✗ Failed to extract full details for post ${post.id}: ${error.message}`);
+    log.error(`     ✗ Failed to extract full details for post ${post.id}: ${error.message}`);
     // Return original post if extraction fails
     return post;
+  } finally {
+    await recording.finish();
+  }
+}
+
+/**
+ * Get the names of the people who liked a post: from the likes list when the page has it,
+ * otherwise after opening the list with its toggle (never the like button, which likes the post)
+ * @param {Page} page - Playwright page on the post
+ * @param {ResolvedSelectors} selectors - Selectors resolved on this page
+ * @returns {Promise<string[]>} Names in the order Handing lists them
+ */
+async function extractLikers(page, selectors: ResolvedSelectors): Promise<string[]> {
+  const readNames = async () => {
+    const names = await page.$$eval(anySelector('likerName'), (elements) => {
+      return elements.map((el: any) => el.textContent.trim()).filter(name => name.length > 0);
+    });
+    return Array.from(new Set<string>(names));
+  };
+
+  const names = await readNames();
+  if (names.length > 0) {
+    return names;
   }
+
+  // The first like count on the page is the post's (comments come after it)
+  const likes = await page.$eval(selectors.likes, (el) => parseInt(el.getAttribute('data-likes') || '0', 10)).catch(() => 0);
+  if (likes === 0) {
+    return [];
+  }
+  if (!(await page.$(selectors.likesListToggle))) {
+    // Liked, but neither the list nor its toggle is on the page: the selectors do not match Handing's markup
+    recordMissingSelectors('post', page.url(), ['likerName', 'likesListToggle']);
+    return [];
+  }
+
+  await page.click(selectors.likesListToggle, { timeout: 5000 });
+  await page.waitForSelector(anySelector('likerName'), { state: 'attached', timeout: 5000 });
+  const loaded = await readNames();
+  await page.keyboard.press('Escape');
+  return loaded;
 }
 
 /**
- * Extract comments from a post page (with nested replies)
+ * Extract comments from a post page, with their replies nested to any depth
+ * Expands "ver más respuestas" / "load more comments" first, so the whole thread is on the page
  * @param {Page} page - Playwright page instance
+ * @param {ResolvedSelectors} selectors - Selectors resolved on this page (resolved here when omitted)
  * @returns {Promise<Array>} Array of comment objects with nested replies
  */
-export async function extractComments(page) {
-  // Simplified extraction to avoid tsx transpilation issues
-  const comments = await page.evaluate(() => {
-    const commentElements = Array.from(document.querySelectorAll('div.comment'));
-    const topLevelComments = [];
-
-    // Process each comment element inline (no helper functions)
-    for (const commentElement of commentElements) {
-      // Check if this comment is not inside a comment-responses container
-      const isTopLevel = !commentElement.closest('div.comment-responses');
-      if (!isTopLevel) continue;
+export async function extractComments(page, selectors?: ResolvedSelectors) {
+  const expanded = await expandCommentThreads(page);
+  if (expanded > 0 || !selectors) {
+    // Loaded replies can use markup the page did not have before
+    selectors = await resolveSelectors(page);
+  }
+
+  // One flat list in document order, each comment pointing at the comment it replies to:
+  // the browser side can not use (recursive) helper functions without tsx transpilation issues
+  const flatComments = await page.evaluate((selectors) => {
+    const commentElements = Array.from(document.querySelectorAll(selectors.comment));
+
+    return commentElements.map((commentElement) => {
+      // The comment without its replies, so every lookup below finds its own elements
+      const own = commentElement.cloneNode(true) as HTMLElement;
+      own.querySelectorAll(selectors.comment).forEach(el => el.remove());
+      own.querySelectorAll(selectors.commentReplies).forEach(el => el.remove());
 
       // Extract author
-      const authorElement = commentElement.querySelector('a.text-navy');
+      const authorElement = own.querySelector(selectors.commentAuthor);
       const author = authorElement ? authorElement.textContent.trim() : 'Unknown';
 
       // Extract avatar (from actual DOM: a.forum-avatar img.img-circle.avatar-picture)
-      const avatarImg = commentElement.querySelector('a.forum-avatar img.img-circle.avatar-picture, a.forum-avatar img.img-circle');
+      const avatarImg = own.querySelector(selectors.commentAvatar);
       const authorAvatar = avatarImg ? avatarImg.getAttribute('src') : undefined;
 
       // Extract author role (text node in .media-heading after author link, before <br>)
-      const mediaHeading = commentElement.querySelector('.media-heading');
+      const mediaHeading = own.querySelector(selectors.commentHeading);
       let authorRole = undefined;
       if (mediaHeading) {
-        // Get all text nodes, skip the author link text, get text between link and <br>
-        const clone = mediaHeading.cloneNode(true) as HTMLElement;
-        // Remove the author link
-        const linkToRemove = clone.querySelector('a.text-navy');
+        const heading = mediaHeading.cloneNode(true) as HTMLElement;
+        // Remove the author link, the timestamp and clearfix
+        const linkToRemove = heading.querySelector(selectors.commentAuthor);
         if (linkToRemove) linkToRemove.remove();
-        // Remove the timestamp
-        const timeToRemove = clone.querySelector('small.created-at');
-        if (timeToRemove) timeToRemove.remove();
-        // Remove clearfix
-        const clearfixToRemove = clone.querySelector('.clearfix');
-        if (clearfixToRemove) clearfixToRemove.remove();
+        heading.querySelectorAll(selectors.commentHeadingExtras).forEach(el => el.remove());
         // Get remaining text (should be the role)
-        const roleText = clone.textContent?.trim().replace(/\s+/g, ' ');
+        const roleText = heading.textContent?.trim().replace(/\s+/g, ' ');
         if (roleText && roleText.length > 0) {
           authorRole = roleText;
         }
       }
 
       // Extract timestamp
-      const timestampElement = commentElement.querySelector('small.created-at-timeline');
+      const timestampElement = own.querySelector(selectors.commentTimestamp);
       const timestamp = timestampElement ? timestampElement.getAttribute('title') || timestampElement.textContent.trim() : '';
 
-      // Extract comment text
-      const textElement = commentElement.querySelector('.comment-text, .sanitized-post-content');
+      // Extract comment body: plain text, and HTML with absolute links and image URLs
+      const textElement = own.querySelector(selectors.commentText);
+      const links = [];
+      if (textElement) {
+        textElement.querySelectorAll('a[href]').forEach((link: any) => {
+          link.setAttribute('href', link.href);
+          links.push({ url: link.href, name: link.textContent.trim() || link.href });
+        });
+        textElement.querySelectorAll('img[src]').forEach((img: any) => img.setAttribute('src', img.src));
+      }
       const text = textElement ? textElement.textContent.trim() : '';
+      const html = textElement ? textElement.innerHTML.trim() : '';
+
+      // Extract pictures attached to the comment
+      const images = [];
+      own.querySelectorAll(selectors.commentImage).forEach((img: any) => {
+        const imageUrl = img.getAttribute('data-original-url') || img.getAttribute('data-large-url') || img.getAttribute('src');
+        if (imageUrl && !imageUrl.includes('data:image')) {
+          const absoluteUrl = new URL(imageUrl, document.baseURI).href;
+          if (!images.includes(absoluteUrl)) images.push(absoluteUrl);
+        }
+      });
 
       // Extract likes
-      const likesElement = commentElement.querySelector('[data-likes]');
+      const likesElement = own.querySelector(selectors.likes);
       const likes = likesElement ? parseInt(likesElement.getAttribute('data-likes') || '0', 10) : 0;
 
-      // Extract nested replies (inline processing)
-      const replies = [];
-      const repliesContainer = commentElement.querySelector('div.comment-responses');
-      if (repliesContainer) {
-        const replyElements = repliesContainer.querySelectorAll(':scope > div.comment');
-        for (const replyElement of replyElements) {
-          const replyAuthor = replyElement.querySelector('a.text-navy')?.textContent?.trim() || 'Unknown';
-          const replyAvatarImg = replyElement.querySelector('a.forum-avatar img.img-circle.avatar-picture, a.forum-avatar img.img-circle');
-          const replyAuthorAvatar = replyAvatarImg ? replyAvatarImg.getAttribute('src') : undefined;
-
-          // Extract reply author role (same logic as comment)
-          const replyMediaHeading = replyElement.querySelector('.media-heading');
-          let replyAuthorRole = undefined;
-          if (replyMediaHeading) {
-            const clone = replyMediaHeading.cloneNode(true) as HTMLElement;
-            const linkToRemove = clone.querySelector('a.text-navy');
-            if (linkToRemove) linkToRemove.remove();
-            const timeToRemove = clone.querySelector('small.created-at, small.created-at-timeline');
-            if (timeToRemove) timeToRemove.remove();
-            const clearfixToRemove = clone.querySelector('.clearfix');
-            if (clearfixToRemove) clearfixToRemove.remove();
-            const roleText = clone.textContent?.trim().replace(/\s+/g, ' ');
-            if (roleText && roleText.length > 0) {
-              replyAuthorRole = roleText;
-            }
-          }
-
-          const replyTimestamp = replyElement.querySelector('small.created-at-timeline, small.created-at')?.getAttribute('title') ||
-                                 replyElement.querySelector('small.created-at-timeline, small.created-at')?.textContent?.trim() || '';
-          const replyText = replyElement.querySelector('.comment-text, .sanitized-post-content')?.textContent?.trim() || '';
-          const replyLikes = parseInt(replyElement.querySelector('[data-likes]')?.getAttribute('data-likes') || '0', 10);
-
-          replies.push({
-            author: replyAuthor,
-            authorAvatar: replyAuthorAvatar,
-            authorRole: replyAuthorRole,
-            timestamp: replyTimestamp,
-            text: replyText,
-            likes: replyLikes,
-            replies: []
-          });
-        }
-      }
+      // The closest comment around this one is the comment it replies to
+      const parentComment = commentElement.parentElement ? commentElement.parentElement.closest(selectors.comment) : null;
 
-      topLevelComments.push({
+      return {
+        parent: commentElements.indexOf(parentComment),
         author,
         authorAvatar,
         authorRole,
         timestamp,
         text,
-        likes,
-        replies
-      });
-    }
+        html,
+        links,
+        images,
+        likes
+      };
+    });
+  }, selectors);
+
+  return buildCommentThreads(flatComments);
+}
+
+/**
+ * Nest the flat comment list from the page into threads (a reply always comes after the comment it replies to)
+ * @param {Array} flatComments - Comments in document order with the index of their parent (-1 for top-level comments)
+ * @returns {Comment[]} Top-level comments with their replies
+ */
+export function buildCommentThreads(flatComments: Array<Comment & { parent: number }>): Comment[] {
+  const comments: Comment[] = flatComments.map(({ parent, ...comment }) => ({ ...comment, replies: [] }));
+  const threads: Comment[] = [];
 
-    return topLevelComments;
+  flatComments.forEach(({ parent }, index) => {
+    if (parent >= 0) {
+      comments[parent].replies.push(comments[index]);
+    } else {
+      threads.push(comments[index]);
+    }
   });
+  return threads;
+}
 
-  return comments;
+/**
+ * Click "ver más respuestas" / "load more comments" until every comment is loaded
+ * @param {Page} page - Playwright page on the post
+ * @returns {Promise<number>} How many times more comments were loaded
+ */
+async function expandCommentThreads(page): Promise<number> {
+  const controls = page.locator(anySelector('moreComments'))
+    .or(page.locator('a, button').filter({ hasText: MORE_COMMENTS_TEXT }));
+  let expanded = 0;
+
+  while (expanded < MAX_COMMENT_EXPANSIONS) {
+    const control = await findVisible(controls);
+    if (!control) {
+      break;
+    }
+
+    const commentCount = await page.locator(anySelector('comment')).count();
+    await throttle('handing');
+    await control.click({ timeout: 5000 });
+
+    // Wait for the comments to arrive; a control that loads nothing would be clicked forever
+    const loaded = await page.waitForFunction(({ selector, count }) => {
+      return document.querySelectorAll(selector).length > count;
+    }, { selector: anySelector('comment'), count: commentCount }, { timeout: 10000 }).then(() => true, () => false);
+
+    if (!loaded) {
+      log.debug(`     ⚠ "${(await control.textContent().catch(() => '')).trim()}" loaded no comments, stopping`);
+      break;
+    }
+    expanded++;
+  }
+
+  if (expanded > 0) {
+    log.debug(`     ✓ Loaded more comments ${expanded} time(s)`);
+  }
+  return expanded;
+}
+
+/**
+ * Get the first visible element of a locator
+ * @param {Locator} locator - Playwright locator
+ * @returns {Promise<Locator|null>}
+ */
+async function findVisible(locator) {
+  const count = await locator.count();
+  for (let i = 0; i < count; i++) {
+    if (await locator.nth(i).isVisible()) {
+      return locator.nth(i);
+    }
+  }
+  return null;
 }
@@ -0,0 +1,260 @@
+/**
+ * Selector Profiles
+ *
+ * Every CSS selector the scraper uses, by name, in a versioned profile. Each name has a
+ * fallback chain: on each page the first selector of the chain that matches is used, so
+ * a profile can list the new markup first and keep the old one as a fallback. A profile
+ * file (config.json "selectorProfile") overrides chains of the built-in profile.
+ *
+ * Pages are also checked for the elements their type should always have (selector health):
+ * missing ones are logged and summed up in the run report, which is the first sign that
+ * Handing changed its markup
+ */
+
+import chalk from 'chalk';
+import { readFile } from 'fs/promises';
+import { Page } from 'playwright';
+import { createLogger } from './logger.js';
+import { SchemaNode, validateSchema } from './config-schema.js';
+import { SelectorHealthReport } from './types.js';
+
+const log = createLogger('selectors');
+
+const MAX_HEALTH_EXAMPLES = 5;  // Page URLs kept per missing selector
+
+export type PageType = 'login' | 'groups' | 'timeline' | 'post';
+
+export interface SelectorProfile {
+  name: string;
+  version: string;
+  selectors: Record<SelectorName, string[]>;  // Fallback chains, preferred selector first
+}
+
+const DEFAULT_SELECTORS = {
+  // Login form
+  loginEmail: ['#user_email'],
+  loginPassword: ['#user_password'],
+
+  // Sidebar ("Mis grupos"): sidebar links first, any group link on the page as a fallback
+  groupLink: ['nav a[href*="/groups/"], aside a[href*="/groups/"], #side-menu a[href*="/groups/"]', 'a[href*="/groups/"]'],
+  sidebarToggle: ['nav a, nav button, aside a, aside button, #side-menu a'],
+  archivedGroup: ['.archived, [class*="archived"], [data-archived="true"]'],
+
+  // Timeline
+  timelineBlock: ['div.vertical-timeline-block'],
+  timelinePost: ['div.js-post[data-post-id]'],
+  postTitleLink: ['a.post-title-link'],
+  timelineTimestamp: ['small.created-at-timeline'],
+  timelineContent: ['span.content'],
+  likes: ['[data-likes]'],
+  commentsCount: ['[data-comments-count]'],
+  seeMorePosts: ['#see-more-posts-btn'],
+
+  // Post page
+  postContent: ['div.sanitized-post-content'],
+  postContentLink: ['div.sanitized-post-content a[href]'],
+  postAuthorName: ['a.user-name b', 'a.user-name'],
+  postAuthorAvatar: ['a.forum-avatar img.img-circle'],
+  postAuthorRole: ['.media-body .media-text .comment-text small'],
+  carouselSlide: ['.slick-slide'],
+  carouselImage: ['.post-main-image-container-cover, div[data-large-url], div[data-original-url]'],
+  singleImage: ['a.post-img-container[data-large-url], a.post-img-container[data-original-url]'],
+  video: ['div.video-preview video'],
+  attachmentLink: ['div.attachments a.attachment-file-name'],
+
+  // Likes list, polls and read confirmation (post page), used only with scraping.extractInteractions:
+  // written from the Handing web app, not yet confirmed on recorded pages
+  likerName: ['.likes-list .user-name, #likes-modal .user-name'],
+  likesListToggle: ['a.show-likes, a[data-target="#likes-modal"]'],  // Never the like button: clicking it likes the post
+  poll: ['div.poll, div.survey'],
+  pollClosed: ['.poll.closed, .survey.closed, [data-closed="true"]'],
+  pollQuestion: ['.poll-question, .poll-title'],
+  pollOption: ['.poll-option'],
+  pollOptionSelected: ['.poll-option.selected, .poll-option.voted'],
+  pollOptionText: ['.poll-option-text'],
+  pollOptionVotes: ['.poll-option-votes, [data-votes]'],
+  pollOptionVoter: ['.poll-voters .user-name'],
+  readConfirmation: ['.read-confirmation'],
+  readConfirmed: ['.read-confirmation.confirmed'],
+
+  // Comments
+  comment: ['div.comment'],
+  commentReplies: ['div.comment-responses'],
+  commentAuthor: ['a.text-navy'],
+  commentAvatar: ['a.forum-avatar img.img-circle.avatar-picture', 'a.forum-avatar img.img-circle'],
+  commentHeading: ['.media-heading'],
+  commentTimestamp: ['small.created-at-timeline, small.created-at'],
+  commentText: ['.comment-text, .sanitized-post-content'],
+  commentImage: ['.comment-images img, .comment-image img'],
+  moreComments: ['a.load-more-comments, a.show-more-responses, .js-load-more-comments, .js-load-more-responses'],
+  commentHeadingExtras: ['small.created-at, small.created-at-timeline, .clearfix']  // Removed from the heading, leaving the author role
+};
+
+export type SelectorName = keyof typeof DEFAULT_SELECTORS;
+
+export type ResolvedSelectors = Record<SelectorName, string>;
+
+export const DEFAULT_SELECTOR_PROFILE: SelectorProfile = {
+  name: 'handing',
+  version: '2025.11',
+  selectors: DEFAULT_SELECTORS
+};
+
+// Elements every page of a type has: anything missing means the markup changed
+// (carousels, videos, attachments, comments, polls, read confirmations and the likes list are
+// optional on posts, so they are not checked here; a liked post whose likes list cannot be
+// found is reported by the scraper with recordMissingSelectors)
+const EXPECTED_SELECTORS: Record<PageType, SelectorName[]> = {
+  login: ['loginEmail', 'loginPassword'],
+  groups: ['groupLink'],
+  timeline: ['timelineBlock', 'timelinePost', 'postTitleLink', 'timelineTimestamp'],
+  post: ['postContent', 'postAuthorName', 'postAuthorAvatar']
+};
+
+const CHAIN_FIELD: SchemaNode = {
+  anyOf: [
+    { type: 'string', nonEmpty: true },
+    { type: 'array', nonEmpty: true, items: { type: 'string', nonEmpty: true } }
+  ]
+};
+
+const PROFILE_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    name: { type: 'string', required: true, nonEmpty: true },
+    version: { type: 'string', required: true, nonEmpty: true },
+    selectors: {
+      type: 'object',
+      required: true,
+      fields: Object.fromEntries(Object.keys(DEFAULT_SELECTORS).map(name => [name, CHAIN_FIELD]))
+    }
+  }
+};
+
+let profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE;
+const health: SelectorHealthReport = { profile: formatProfile(DEFAULT_SELECTOR_PROFILE), pages: {} };
+
+/**
+ * Load a selector profile file over the built-in profile
+ * @param {string} path - Profile JSON ({ name, version, selectors: { name: selector or fallback chain } })
+ * @returns {Promise<SelectorProfile>}
+ */
+export async function loadSelectorProfile(path: string): Promise<SelectorProfile> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Selector profile not found: ${path}`);
+    }
+    throw new Error(`Could not read selector profile ${path}: ${error.message}`);
+  }
+
+  const { value, errors } = validateSchema(raw, PROFILE_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid selector profile ${path}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  const overrides = Object.fromEntries(
+    Object.entries(value.selectors as Record<string, string | string[]>)
+      .map(([name, chain]) => [name, Array.isArray(chain) ? chain : [chain]])
+  );
+  return {
+    name: value.name,
+    version: value.version,
+    selectors: { ...DEFAULT_SELECTORS, ...overrides }
+  };
+}
+
+/**
+ * Use a selector profile for the rest of the run
+ * @param {SelectorProfile} selectorProfile - Profile from loadSelectorProfile (or the built-in one)
+ */
+export function configureSelectorProfile(selectorProfile: SelectorProfile) {
+  profile = selectorProfile;
+  health.profile = formatProfile(selectorProfile);
+  if (selectorProfile !== DEFAULT_SELECTOR_PROFILE) {
+    log.info(chalk.gray(`   Using selector profile ${health.profile}`));
+  }
+}
+
+/**
+ * Get a selector matching any selector of a chain (for waiting until an element shows up)
+ * @param {SelectorName} name - Selector name
+ * @returns {string} The chain as one CSS selector list
+ */
+export function anySelector(name: SelectorName): string {
+  return profile.selectors[name].join(', ');
+}
+
+/**
+ * Pick the selector of every chain that matches on the current page, and check the
+ * elements the page type should have (selector health)
+ * @param {Page} page - Playwright page with the page loaded
+ * @param {PageType} pageType - What the page is (omit to skip the health check)
+ * @returns {Promise<ResolvedSelectors>} One selector per name (the first of the chain when none matches)
+ */
+export async function resolveSelectors(page: Page, pageType?: PageType): Promise<ResolvedSelectors> {
+  const { selectors, missing } = await page.evaluate((chains) => {
+    const selectors = {};
+    const missing = [];
+    // No helper functions in here: tsx would wrap them in a helper the browser does not have
+    for (const name of Object.keys(chains)) {
+      let match = null;
+      for (const selector of chains[name]) {
+        try {
+          if (document.querySelector(selector)) {
+            match = selector;
+            break;
+          }
+        } catch {
+          // Invalid selector in a profile - try the next one
+        }
+      }
+      selectors[name] = match || chains[name][0];
+      if (!match) missing.push(name);
+    }
+    return { selectors, missing };
+  }, profile.selectors);
+
+  if (pageType) {
+    (health.pages[pageType] ||= { checked: 0, missing: {} }).checked++;
+    recordMissingSelectors(pageType, page.url(), missing.filter(name => EXPECTED_SELECTORS[pageType].includes(name)));
+  }
+  return selectors as ResolvedSelectors;
+}
+
+/**
+ * Add elements a page should have had but did not match to the selector health
+ * Also used by the scraper for elements expected only on some pages of a type
+ * @param {PageType} pageType - What the page is
+ * @param {string} url - Page URL (kept as an example)
+ * @param {SelectorName[]} missing - Selectors that did not match
+ */
+export function recordMissingSelectors(pageType: PageType, url: string, missing: string[]) {
+  const entry = health.pages[pageType] ||= { checked: 0, missing: {} };
+
+  for (const name of missing) {
+    const selector = entry.missing[name] ||= { count: 0, examples: [] };
+    selector.count++;
+    if (selector.examples.length < MAX_HEALTH_EXAMPLES) {
+      selector.examples.push(url);
+    }
+  }
+
+  if (missing.length > 0) {
+    log.warn(chalk.yellow(`  ⚠ Selector health (${pageType}): ${missing.join(', ')} not found on ${url}`));
+  }
+}
+
+/**
+ * Get the selector health of the run so far: pages checked and missing elements per page type
+ * @returns {SelectorHealthReport}
+ */
+export function getSelectorHealth(): SelectorHealthReport {
+  return structuredClone(health);
+}
+
+function formatProfile(selectorProfile: SelectorProfile): string {
+  return `${selectorProfile.name}@${selectorProfile.version}`;
+}
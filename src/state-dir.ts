@@ -0,0 +1,146 @@
+/**
+ * Archive State Directory
+ *
+ * Everything the tool keeps besides the archive itself (manifests, browser session,
+ * reports and debug dumps) lives in <outputDir>/.handing/, so the archive folder is
+ * self-contained and runs from any working directory find the same state
+ */
+
+import { readdir, mkdir, access } from 'fs/promises';
+import { join, resolve } from 'path';
+import chalk from 'chalk';
+import { moveFile } from './utils.js';
+import { createLogger } from './logger.js';
+import { Config } from './types.js';
+
+const log = createLogger('state');
+
+const STATE_DIR_NAME = '.handing';
+const LEGACY_SESSION_FILE = '.handing-session.json';
+
+/**
+ * Get the state directory of an archive
+ * @param {string} outputDir - Base output directory
+ * @returns {string} Absolute path of <outputDir>/.handing
+ */
+export function getStateDir(outputDir: string): string {
+  return resolve(outputDir, STATE_DIR_NAME);
+}
+
+/**
+ * Get the directory holding the manifest-<group>.json files (and the SQLite database)
+ * @param {string} outputDir - Base output directory
+ * @returns {string}
+ */
+export function getManifestDir(outputDir: string): string {
+  return join(getStateDir(outputDir), 'manifests');
+}
+
+/**
+ * Get the default browser session file (used when scraping.sessionFile is not set)
+ * @param {string} outputDir - Base output directory
+ * @returns {string}
+ */
+export function getDefaultSessionPath(outputDir: string): string {
+  return join(getStateDir(outputDir), 'session.json');
+}
+
+/**
+ * Get a path for a report file, creating the reports directory
+ * @param {string} outputDir - Base output directory
+ * @param {string} filename - Report file name
+ * @returns {Promise<string>}
+ */
+export async function getReportFilePath(outputDir: string, filename: string): Promise<string> {
+  const dir = join(getStateDir(outputDir), 'reports');
+  await mkdir(dir, { recursive: true });
+  return join(dir, filename);
+}
+
+/**
+ * Get a path for a debug dump (failed posts, screenshots, page HTML), creating the debug directory
+ * @param {string} outputDir - Base output directory
+ * @param {string} filename - Debug file name
+ * @returns {Promise<string>}
+ */
+export async function getDebugFilePath(outputDir: string, filename: string): Promise<string> {
+  const dir = join(getStateDir(outputDir), 'debug');
+  await mkdir(dir, { recursive: true });
+  return join(dir, filename);
+}
+
+/**
+ * Get the directory for the page recordings of a run (--record)
+ * @param {string} outputDir - Base output directory
+ * @param {Date} startedAt - When the run started (names the directory)
+ * @returns {string}
+ */
+export function getRecordingsDir(outputDir: string, startedAt: Date = new Date()): string {
+  return join(getStateDir(outputDir), 'recordings', startedAt.toISOString().replace(/[:.]/g, '-'));
+}
+
+/**
+ * Move state written by older versions to the working directory into the state directory:
+ * manifest-*.json files with their backups, and the default browser session file
+ * Files that already exist in the state directory are never overwritten
+ * @param {Config} config - Configuration object
+ * @returns {Promise<string[]>} Files moved (new paths)
+ */
+export async function migrateLegacyState(config: Config): Promise<string[]> {
+  const cwd = process.cwd();
+  const manifestDir = getManifestDir(config.outputDir);
+  const moved = [];
+
+  if (resolve(cwd) !== manifestDir) {
+    const entries = await readdir(cwd).catch(() => []);
+
+    for (const file of entries.filter(entry => /^manifest-.+\.json$/.test(entry))) {
+      // A run of an older version is still writing this manifest
+      if (entries.includes(`${file}.lock`)) {
+        throw new Error(
+          `${join(cwd, file)} is locked by a running backup. Wait for it to finish ` +
+          `(or delete ${join(cwd, `${file}.lock`)} if no backup is running) and try again.`
+        );
+      }
+
+      const target = join(manifestDir, file);
+      if (await fileExists(target)) {
+        log.warn(chalk.yellow(`   ⚠ Not moving ${join(cwd, file)}: ${target} already exists`));
+        continue;
+      }
+
+      await mkdir(manifestDir, { recursive: true });
+      await moveFile(join(cwd, file), target);
+      for (const backup of entries.filter(entry => entry.startsWith(`${file}.bak.`))) {
+        await moveFile(join(cwd, backup), join(manifestDir, backup));
+      }
+      moved.push(target);
+    }
+  }
+
+  // Session file at its old default location (a configured sessionFile stays where it is)
+  if (!config.scraping?.sessionFile) {
+    const legacySession = resolve(cwd, LEGACY_SESSION_FILE);
+    const target = getDefaultSessionPath(config.outputDir);
+    if (await fileExists(legacySession) && !(await fileExists(target))) {
+      await mkdir(getStateDir(config.outputDir), { recursive: true });
+      await moveFile(legacySession, target);
+      moved.push(target);
+    }
+  }
+
+  if (moved.length > 0) {
+    log.info(chalk.gray(`   Moved ${moved.length} state files from ${cwd} to ${getStateDir(config.outputDir)}`));
+  }
+
+  return moved;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -26,18 +26,51 @@ export interface Post {
   externalLinks?: ExternalLink[];
   comments: Comment[];
   likes: number;
+  likedBy?: string[];     // Names of the people who liked the post
+  polls?: Poll[];         // Polls and sign-up lists in the post
+  readConfirmation?: ReadConfirmation;  // Only on posts that ask families to confirm they read them
   commentsCount?: number;
   extractedFrom?: string;
 }
 
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  closed: boolean;
+  totalVotes: number;
+}
+
+export interface PollOption {
+  text: string;
+  votes: number;
+  voters: string[];   // Names, when Handing shows who voted (sign-up lists)
+  selected: boolean;  // Chosen by the account the backup runs as
+}
+
+export interface ReadConfirmation {
+  confirmed: boolean;  // Confirmed by the account the backup runs as
+  confirmedAt?: string;
+  readCount?: number;  // Confirmations so far and families asked (shown to teachers)
+  recipientsCount?: number;
+}
+
 export interface Comment {
   author: string;
   authorAvatar?: string;  // Avatar URL
   authorRole?: string;    // Author's role in school community (e.g., "Padre de Joaquin Berges (Sala de 5A)")
   timestamp: string;
   text: string;
+  html?: string;          // Comment body with its formatting, links and inline images (absolute URLs)
+  links?: CommentLink[];  // Links in the comment body
+  images?: string[];      // Pictures attached to the comment (absolute URLs, inline images are in html)
   likes: number;
-  replies?: Comment[];
+  replies?: Comment[];    // Nested to any depth
+}
+
+export interface CommentLink {
+  url: string;
+  name: string;
 }
 
 export interface ExternalLink {
@@ -48,19 +81,37 @@ export interface ExternalLink {
 
 export interface Config {
   email: string;
-  password: string;
+  // Exactly one password source: plaintext, an environment variable, a command or an encrypted file
+  password?: string;
+  passwordEnv?: string;  // Name of the environment variable holding the password
+  passwordCommand?: string;  // Shell command printing the password (e.g. "pass show handing")
+  credentialsFile?: string;  // File encrypted with a passphrase (relative to the config file)
   outputDir: string;
-  groups: GroupConfig[];
+  groups?: GroupConfig[] | 'auto';  // Omit, leave empty or set to "auto" to discover groups from the sidebar
+  groupFilters?: GroupFiltersConfig;
   mediaStrategy: MediaStrategyConfig;
   scraping: ScrapingConfig;
   filesystem: FilesystemConfig;
-  outputFormat?: 'markdown' | 'html';
+  outputFormat?: OutputFormat | OutputFormat[];  // Several formats render side by side in each month folder
   downloaders?: DownloadersConfig;
+  manifestStore?: ManifestStoreConfig;
+  logging?: LoggingConfig;
+  performance?: PerformanceConfig;
+  site?: SiteConfig;
+  selectorProfile?: string;  // Selector profile JSON overriding the built-in selectors (relative to the config file)
 }
 
+export type OutputFormat = 'markdown' | 'html';
+
 export interface GroupConfig {
   name: string;
   url: string;
+  archived?: boolean;  // Group from a past school year (discovered groups only)
+}
+
+export interface GroupFiltersConfig {
+  include?: string[];  // Name patterns to keep (case-insensitive, "*" wildcard)
+  exclude?: string[];  // Name patterns to drop (applied after include)
 }
 
 export interface MediaStrategyConfig {
@@ -75,6 +126,9 @@ export interface ScrapingConfig {
   scrollDelay: number;
   maxRetries: number;
   userAgent: string;
+  reuseSession?: boolean;  // Persist cookies/localStorage between runs (default: true)
+  sessionFile?: string;    // Where the browser session is stored (default: <outputDir>/.handing/session.json)
+  extractInteractions?: boolean;  // Who liked, polls and read confirmations (default: false, selectors unconfirmed)
 }
 
 export interface FilesystemConfig {
@@ -88,6 +142,37 @@ export interface DownloadersConfig {
   maxImagesPerGallery?: number;
 }
 
+export interface ManifestStoreConfig {
+  type: 'json' | 'sqlite';  // json: one manifest-<group>.json per group (default)
+  path?: string;  // sqlite: database file (default: <outputDir>/.handing/manifests/handing-backup.db)
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggingConfig {
+  level?: LogLevel;  // Lowest level shown on the console (default: info)
+  file?: string;  // JSON-lines log file, every level (relative to the config file)
+}
+
+export interface PerformanceConfig {
+  concurrentPosts?: number;  // Posts processed in parallel, one browser page each (default: 1)
+  timelinePagesPerBatch?: number;  // Timeline pages extracted in parallel (default: 5)
+  maxTimelinePages?: number;  // Safety limit on timeline pages per group (default: 500)
+  mediaDownloads?: number;  // Images/videos of a post downloaded in parallel (default: 5)
+  externalLinkDownloads?: number;  // External links of a post downloaded in parallel (default: 3)
+  galleryDownloads?: number;  // Files of a Google Photos album downloaded in parallel (default: 10)
+  galleryIdleScrolls?: number;  // Scrolls without new items before a gallery counts as fully loaded (default: 25)
+  avatarDownloads?: number;  // Avatars downloaded in parallel (default: 5)
+  handingRequestsPerSecond?: number;  // Page loads and downloads from Handing (default: 0, no limit)
+  googleRequestsPerSecond?: number;  // Page loads and downloads from Google Photos/Drive (default: 0, no limit)
+  requestJitter?: number;  // Random extra delay per request, as a fraction of the interval (default: 0.5)
+}
+
+export interface SiteConfig {
+  baseUrl?: string;  // Handing web app with the groups and posts (default: https://newmodel.handing.co)
+  loginUrl?: string;  // Login form (default: https://web.handing.co/users/sign_in)
+}
+
 // ============================================================================
 // Downloader Interfaces
 // ============================================================================
@@ -131,15 +216,61 @@ export interface DownloadResult {
 // ============================================================================
 
 export interface Exporter {
-  export(post: Post, media: MediaInfo[], outputDir: string, config: Config): Promise<void>;
+  // outputDir is the post's month folder; returns the path of the written file
+  export(post: Post, media: MediaInfo[], outputDir: string, config: Config): Promise<string>;
   getExtension(): string;
 }
 
 export interface MediaInfo {
   fileName: string;
   originalUrl: string;
-  relativePath: string;
+  relativePath: string;  // Relative to the Messages folder (e.g., '../Images/file.jpg')
   type?: 'image' | 'video' | 'document';
+  sourceName?: string;  // Name of the external link or gallery the file came from
+  galleryUrl?: string;  // Album/folder URL for files downloaded from a gallery
+  commentImage?: boolean;  // Attached to a comment: rendered with the comment, not with the post images
+}
+
+// ============================================================================
+// Post Processing Types
+// ============================================================================
+
+export type AssetKind = 'image' | 'video' | 'gallery' | 'drive' | 'external';
+
+export interface AssetOutcome {
+  kind: AssetKind;
+  sourceUrl: string;  // Image/video URL, or the external link / gallery URL
+  status: 'success' | 'failed' | 'skipped';
+  fileName?: string;
+  filePath?: string;
+  sourceName?: string;  // Name of the external link or gallery
+  galleryUrl?: string;  // Album/folder URL for files downloaded from a gallery
+  downloader?: string;  // What fetched the file (downloader class name, or HandingMedia for post images/videos)
+  reused?: boolean;  // File was already on disk, not downloaded again
+  size?: number;  // Bytes on disk
+  contentHash?: string;  // sha256 of the file
+  downloadedAt?: string;
+  error?: string;
+}
+
+export interface PostProcessingResult {
+  postId: string;
+  status: 'complete' | 'partial' | 'failed';
+  post: Post;  // Enriched post (the input post if enrichment failed)
+  assets: AssetOutcome[];
+  media: MediaInfo[];  // Downloaded files, as passed to the exporters
+  outputPaths: string[];  // One rendered file per output format
+  dataPath?: string;  // JSON snapshot of the post and media
+  failedLinks: ExternalLink[];  // Links written to the External_Links file
+  changes: string[];  // What changed since the last run (empty for new posts)
+  authorAvatars: Map<string, string>;  // author -> avatarUrl for the post, comments and replies
+  error?: string;
+  errorStack?: string;
+}
+
+export interface PostProcessorHooks {
+  onAssetDownloaded?(asset: AssetOutcome, post: Post): void | Promise<void>;  // After every download attempt (success or not)
+  onPostWritten?(result: PostProcessingResult): void | Promise<void>;  // After the post is rendered and saved in the manifest
 }
 
 // ============================================================================
@@ -150,25 +281,57 @@ export interface Manifest {
   metadata: ManifestMetadata;
   posts: Record<string, ManifestPost>;
   avatars?: Record<string, AvatarMetadata>;  // Track downloaded avatars
+  runs?: ManifestRun[];  // Backup and retry runs of this group, oldest first
 }
 
 export interface ManifestMetadata {
+  created_at?: string;
   last_run?: string;
   total_posts: number;
   group_name?: string;
+  version: string;  // Manifest format version (older versions are migrated on load)
 }
 
 export interface ManifestPost {
   title: string;
   url: string;
+  timestamp?: string;  // Post date as shown by Handing (used for indexes)
+  author?: string;
   first_downloaded: string;
   last_updated: string;
-  markdown_path?: string;
+  markdown_path?: string;  // Primary rendered file (first configured output format)
+  output_paths?: string[];  // Every rendered file, one per output format
+  data_path?: string;  // JSON snapshot of the extracted post and media (for offline export)
   images_count?: number;
   videos_count?: number;
   external_links_count?: number;
   status: 'complete' | 'partial' | 'failed';
   error?: string;  // Error message if status is 'failed'
+  content_hash?: string;  // Hash of the timeline title, content and images (detects edits)
+  comments_count?: number;  // Comment count from the timeline
+  likes?: number;  // Like count from the timeline
+  history?: ManifestPostVersion[];  // Previous rendered versions moved to _history/
+  assets?: ManifestAsset[];  // One entry per image, video, gallery file and external file
+}
+
+export interface ManifestAsset {
+  url: string;  // Source URL of the file
+  kind: AssetKind;
+  status: 'complete' | 'failed' | 'skipped';
+  path?: string;  // Local file path (downloaded files only)
+  file_name?: string;
+  gallery_url?: string;  // Album/folder the file came from
+  source_name?: string;  // Name of the external link or gallery
+  size?: number;  // Bytes on disk
+  content_hash?: string;  // sha256 of the file
+  downloaded_at?: string;
+  error?: string;
+}
+
+export interface ManifestPostVersion {
+  archived_at: string;
+  reason: string;  // What changed (e.g., "content, comments")
+  paths: string[];  // Archived files in the Messages/_history folder
 }
 
 // Avatar metadata for manifest tracking
@@ -180,3 +343,123 @@ export interface AvatarMetadata {
   status: 'complete' | 'failed';
   error?: string;
 }
+
+// One backup or retry run of a group
+export interface ManifestRun {
+  command: 'backup' | 'post' | 'retry-failed';
+  started_at: string;
+  finished_at: string;
+  posts_found: number;
+  posts_processed: number;
+  posts_updated: number;
+  posts_skipped: number;
+  posts_failed: number;
+  images_downloaded: number;
+  videos_downloaded: number;
+  failed_downloads: number;
+}
+
+// Persistence backend for the manifests (see src/manifest-stores)
+export interface ManifestStore {
+  readonly type: ManifestStoreConfig['type'];
+  load(groupName: string): Promise<Manifest | null>;  // null when the group has no manifest yet
+  save(groupName: string, manifest: Manifest): Promise<void>;
+  listGroups(): Promise<string[]>;
+  getLockPath(groupName: string): string;
+  describe(groupName: string): string;  // Where the group's manifest lives, for messages
+}
+
+// ============================================================================
+// Verification Types
+// ============================================================================
+
+export type VerificationIssueType =
+  | 'missing_output'   // Rendered post file recorded in the manifest is not on disk
+  | 'missing_asset'    // Downloaded file recorded in the manifest is not on disk
+  | 'size_mismatch'    // File size differs from the manifest
+  | 'hash_mismatch'    // File content hash differs from the manifest
+  | 'broken_link'      // Relative link in a rendered post points to a missing file
+  | 'orphan_file';     // File in Images/Videos/External_Files that no post references
+
+export interface VerificationIssue {
+  type: VerificationIssueType;
+  group: string;
+  postId?: string;  // Not set for orphan files
+  path: string;  // File that is missing, mismatched or orphaned (the rendered post for broken links)
+  link?: string;  // Link target as written in the post (broken links only)
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface VerificationReport {
+  generatedAt: string;
+  outputDir: string;
+  groups: string[];
+  postsChecked: number;
+  assetsChecked: number;
+  filesScanned: number;  // Files found in the media folders
+  issues: VerificationIssue[];
+  issueCounts: Partial<Record<VerificationIssueType, number>>;
+  repairedPosts?: string[];  // "<group>/<postId>" of posts marked partial by --repair
+}
+
+// ============================================================================
+// Run Report Types
+// ============================================================================
+
+export interface RunReport {
+  command: ManifestRun['command'];
+  status: 'complete' | 'failed';  // failed: the run stopped with an error
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  outputDir: string;
+  groups: RunReportGroup[];
+  totals: {
+    postsNew: number;
+    postsUpdated: number;
+    postsSkipped: number;
+    postsFailed: number;
+    filesDownloaded: number;
+    bytesDownloaded: number;
+  };
+  downloaders: Record<string, RunReportDownloader>;  // Keyed by downloader name
+  errorsByType: Record<string, { count: number; sources: Record<string, number> }>;
+  errors: RunReportError[];
+  selectorHealth?: SelectorHealthReport;
+  error?: string;  // Why the run stopped (status failed)
+}
+
+export interface RunReportGroup {
+  groupName: string;
+  postsFound: number;
+  postsNew: number;  // Processed posts that were not edits (new, or failed in an earlier run)
+  postsUpdated: number;
+  postsSkipped: number;
+  postsFailed: number;
+  filesDownloaded: number;
+  bytesDownloaded: number;
+}
+
+export interface RunReportDownloader {
+  files: number;  // Files downloaded (reused files are not counted)
+  failed: number;
+  bytes: number;
+}
+
+export interface SelectorHealthReport {
+  profile: string;  // name@version of the selector profile used
+  pages: Record<string, {  // Keyed by page type (login, groups, timeline, post)
+    checked: number;
+    missing: Record<string, { count: number; examples: string[] }>;  // Keyed by selector name, examples are page URLs
+  }>;
+}
+
+export interface RunReportError {
+  type: string;  // timeout, http_404, network, auth, no_files, ... (see classifyError)
+  source: string;  // Downloader name, 'post', 'avatar' or 'run'
+  message: string;
+  group?: string;
+  postId?: string;
+  url?: string;
+}
@@ -4,8 +4,14 @@
  * Common helper functions used across the application
  */
 
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { open, rename, unlink, copyFile } from 'fs/promises';
+import { createLogger } from './logger.js';
 import { Post } from './types.js';
 
+const log = createLogger('utils');
+
 export function sanitizeFilename(filename: string): string {
   return filename
     .replace(/[<>:"/\\|?*]/g, '') // Remove invalid characters
@@ -14,6 +20,15 @@ export function sanitizeFilename(filename: string): string {
     .substring(0, 200);             // Limit length
 }
 
+/**
+ * File-name-safe identifier of a group (manifest and lock file names)
+ */
+export function getGroupSlug(groupName: string): string {
+  return sanitizeFilename(groupName)
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -38,6 +53,58 @@ export function createId(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
+export function hashString(str: string): string {
+  return createHash('sha256').update(str, 'utf-8').digest('hex');
+}
+
+/**
+ * Write a file atomically: write a temp file next to it, fsync, then rename over the target
+ * A crash leaves either the old or the new content, never a truncated file
+ * @param {string} filePath - Target file
+ * @param {string} data - File content
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const handle = await open(tempPath, 'w');
+
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  await handle.close();
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Move a file, copying it when source and target are on different filesystems
+ * @param {string} from - Current path
+ * @param {string} to - New path
+ */
+export async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if (error.code !== 'EXDEV') throw error;
+    await copyFile(from, to);
+    await unlink(from);
+  }
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
 export function parseTimestamp(timestampStr: string): Date {
   if (!timestampStr || timestampStr.trim() === '') {
     // Return current date if timestamp is missing
@@ -85,7 +152,7 @@ export function parseTimestamp(timestampStr: string): Date {
   }
 
   // Last resort: return current date
-  console.warn(`Failed to parse timestamp: ${timestampStr}`);
+  log.warn(`Failed to parse timestamp: ${timestampStr}`);
   return new Date();
 }
 
@@ -0,0 +1,94 @@
+/**
+ * Configuration loading tests (no browser needed)
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { loadConfig, getSiteSettings, DEFAULT_SITE } from '../src/config.js';
+import { createTempDir } from './helpers.js';
+
+let dir: string;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  ({ dir, cleanup } = await createTempDir());
+});
+
+after(async () => {
+  await cleanup();
+});
+
+async function load(config: object) {
+  const configPath = join(dir, 'config.json');
+  await writeFile(configPath, JSON.stringify(config));
+  return loadConfig(configPath);
+}
+
+const minimal = { email: 'familia@example.com', password: 'secret', outputDir: './archive' };
+
+describe('loadConfig', () => {
+  afterEach(() => {
+    delete process.env.HANDING_OUTPUT_DIR;
+    delete process.env.HANDING_SCRAPING_HEADLESS;
+  });
+
+  it('fills in defaults and resolves outputDir against the config file', async () => {
+    const config = await load(minimal);
+
+    assert.equal(config.outputDir, join(dir, 'archive'));
+    assert.equal(config.scraping.headless, true);
+    assert.equal(config.mediaStrategy.timeout, 30000);
+    assert.deepEqual(config.manifestStore, { type: 'json' });
+    assert.deepEqual(getSiteSettings(config), DEFAULT_SITE);
+  });
+
+  it('resolves the session file and the SQLite manifest against the config file', async () => {
+    const config = await load({
+      ...minimal,
+      scraping: { sessionFile: 'state/session.json' },
+      manifestStore: { type: 'sqlite', path: 'state/archive.db' }
+    });
+
+    assert.equal(config.scraping.sessionFile, join(dir, 'state/session.json'));
+    assert.equal(config.manifestStore.path, join(dir, 'state/archive.db'));
+  });
+
+  it('applies HANDING_* environment overrides', async () => {
+    process.env.HANDING_OUTPUT_DIR = join(dir, 'from-env');
+    process.env.HANDING_SCRAPING_HEADLESS = 'false';
+    const config = await load(minimal);
+
+    assert.equal(config.outputDir, join(dir, 'from-env'));
+    assert.equal(config.scraping.headless, false);
+  });
+
+  it('lists every problem with its path', async () => {
+    await assert.rejects(
+      load({ ...minimal, scraping: { headless: 'yes' }, mediaStrategie: {}, performance: { mediaDownloads: 0 } }),
+      (error: Error) => {
+        assert.match(error.message, /Unknown field "mediaStrategie" \(did you mean "mediaStrategy"\?\)/);
+        assert.match(error.message, /"scraping.headless" must be true or false/);
+        assert.match(error.message, /"performance.mediaDownloads" must be at least 1/);
+        return true;
+      }
+    );
+  });
+
+  it('requires exactly one password source', async () => {
+    const { password, ...noPassword } = minimal;
+    await assert.rejects(load(noPassword), /No password configured/);
+    await assert.rejects(load({ ...minimal, passwordCommand: 'pass show handing' }), /Only one password source/);
+  });
+
+  it('checks group URLs against the configured site', async () => {
+    const site = { baseUrl: 'http://127.0.0.1:8080/', loginUrl: 'http://127.0.0.1:8080/users/sign_in' };
+    const groups = [{ name: 'Sala Azul', url: 'http://127.0.0.1:8080/groups/42/timeline' }];
+
+    const config = await load({ ...minimal, site, groups });
+    assert.equal(getSiteSettings(config).baseUrl, 'http://127.0.0.1:8080');
+
+    await assert.rejects(load({ ...minimal, groups }), /"groups\[0\].url" must be a Handing timeline URL on https:\/\/newmodel.handing.co/);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Credentials file tests: encryption round trip and files with unexpected scrypt parameters (no browser needed)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { readCredentialsFile, writeCredentialsFile } from '../src/credentials.js';
+import { createTempDir } from './helpers.js';
+
+let dir: string;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  ({ dir, cleanup } = await createTempDir());
+});
+
+after(async () => {
+  await cleanup();
+});
+
+describe('credentials file', () => {
+  it('decrypts what it encrypted, readable by the owner only', async () => {
+    const filePath = join(dir, 'credentials.json');
+    await writeCredentialsFile(filePath, 'clave-secreta', 'frase larga');
+
+    assert.deepEqual(await readCredentialsFile(filePath, 'frase larga'), { password: 'clave-secreta' });
+    await assert.rejects(readCredentialsFile(filePath, 'otra frase'), /Wrong passphrase/);
+    if (process.platform !== 'win32') {
+      assert.equal((await stat(filePath)).mode & 0o777, 0o600);
+    }
+  });
+
+  it('rejects scrypt parameters it did not write instead of deriving with them', async () => {
+    const filePath = join(dir, 'credentials.json');
+    await writeCredentialsFile(filePath, 'clave-secreta', 'frase larga');
+    const file = JSON.parse(await readFile(filePath, 'utf-8'));
+
+    const tamperedPath = join(dir, 'tampered.json');
+    await writeFile(tamperedPath, JSON.stringify({ ...file, scrypt: { N: 2 ** 30, r: 8, p: 1 } }));
+    await assert.rejects(readCredentialsFile(tamperedPath, 'frase larga'), /Unsupported credentials file/);
+  });
+});
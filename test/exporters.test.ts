@@ -0,0 +1,153 @@
+/**
+ * Exporter tests: likes, polls, read confirmations and comment threads in the markdown
+ * and HTML posts (no browser needed)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { generatePostMarkdown } from '../src/markdown-writer.js';
+import { HtmlExporter } from '../src/exporters/index.js';
+import { Comment, Config, MediaInfo, Post } from '../src/types.js';
+import { createTempDir } from './helpers.js';
+
+let dir: string;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  ({ dir, cleanup } = await createTempDir());
+  await mkdir(join(dir, 'Messages'));
+});
+
+after(async () => {
+  await cleanup();
+});
+
+const post: Post = {
+  id: '1005',
+  title: 'Autorizaciones',
+  url: 'https://newmodel.handing.co/posts/1005',
+  author: 'María López',
+  timestamp: '15 de mayo 2025, 14:20',
+  groupName: 'Sala Azul',
+  content: '<p>Necesitamos familias que acompañen.</p>',
+  images: [],
+  comments: [],
+  likes: 2,
+  likedBy: ['Juan Pérez', 'Ana Gómez'],
+  polls: [
+    {
+      question: '¿Quién puede acompañar la salida?',
+      options: [
+        { text: 'Puedo acompañar', votes: 1, voters: ['Juan Pérez'], selected: true },
+        { text: 'No puedo | otro día', votes: 3, voters: [], selected: false }
+      ],
+      multipleChoice: false,
+      closed: true,
+      totalVotes: 4
+    }
+  ],
+  readConfirmation: { confirmed: true, confirmedAt: '15 de mayo 2025, 18:00', readCount: 9, recipientsCount: 22 }
+};
+
+const thread: Comment[] = [
+  {
+    author: 'Ana Gómez',
+    timestamp: '15 de mayo 2025, 15:00',
+    text: '¿Hay que llevar vianda?',
+    html: '¿Hay que llevar <b onclick="steal()">vianda</b>?<script>steal()</script>',
+    images: ['https://newmodel.handing.co/uploads/vianda.jpg', 'https://newmodel.handing.co/uploads/mochila.jpg'],
+    likes: 0,
+    replies: [
+      {
+        author: 'María López',
+        timestamp: '15 de mayo 2025, 15:10',
+        text: 'Sí, ver la lista.',
+        html: 'Sí, ver <a href="https://newmodel.handing.co/posts/1004">la lista</a>.',
+        likes: 1,
+        replies: [
+          {
+            // Saved before comment HTML was kept
+            author: 'Ana Gómez',
+            timestamp: '15 de mayo 2025, 15:20',
+            text: '¡Gracias! <3',
+            likes: 0,
+            replies: []
+          }
+        ]
+      }
+    ]
+  }
+];
+
+// Only the first comment image was downloaded
+const commentImage: MediaInfo = {
+  fileName: '05-15-15-00-vianda.jpg',
+  originalUrl: 'https://newmodel.handing.co/uploads/vianda.jpg',
+  relativePath: '../Images/05-15-15-00-vianda.jpg',
+  type: 'image',
+  commentImage: true
+};
+
+describe('generatePostMarkdown', () => {
+  it('renders who liked, polls and the read confirmation', () => {
+    const markdown = generatePostMarkdown(post);
+
+    assert.match(markdown, /^read_confirmed: true$/m);
+    assert.match(markdown, /## Poll: ¿Quién puede acompañar la salida\?\n\n\*Closed, single choice · 4 votes\*/);
+    assert.match(markdown, /\| \*\*Puedo acompañar\*\* ✓ \| 1 \|/);
+    assert.match(markdown, /\| No puedo \\\| otro día \| 3 \|/);
+    assert.match(markdown, /- \*\*Puedo acompañar\*\*: Juan Pérez/);
+    assert.match(markdown, /## Read Confirmation\n\n✓ Confirmed on 15 de mayo 2025, 18:00\n\nRead by 9 of 22/);
+    assert.match(markdown, /## Likes \(2\)\n\nJuan Pérez, Ana Gómez/);
+  });
+
+  it('leaves the sections out of posts without them', () => {
+    const { likedBy, polls, readConfirmation, ...plain } = post;
+    const markdown = generatePostMarkdown(plain);
+
+    assert.doesNotMatch(markdown, /read_confirmed|## Poll|## Read Confirmation|## Likes/);
+  });
+
+  it('renders comment threads nested to any depth', () => {
+    const markdown = generatePostMarkdown({ ...post, comments: thread }, {
+      commentImages: new Map([[commentImage.originalUrl, commentImage.fileName]])
+    });
+
+    // Without the script and event handler, linking the downloaded copy of the image
+    assert.match(markdown, /### Ana Gómez\n\*15 de mayo 2025, 15:00\*\n\n¿Hay que llevar <b>vianda<\/b>\?\n\n!\[Comment Image 1\]\(\.\.\/Images\/05-15-15-00-vianda.jpg\)\n!\[Comment Image 2\]\(https:\/\/newmodel.handing.co\/uploads\/mochila.jpg\)/);
+    assert.doesNotMatch(markdown, /steal\(\)/);
+    assert.match(markdown, /^\*\*Reply by María López\*\* \*15 de mayo 2025, 15:10\*\n\n> Sí, ver <a href="[^"]+">la lista<\/a>\.\n\n> 👍 1 likes$/m);
+    assert.match(markdown, /^> \*\*Reply by Ana Gómez\*\* \*15 de mayo 2025, 15:20\*\n\n> > ¡Gracias! &lt;3$/m);
+    // The thread ends before the separator
+    assert.match(markdown, /> > ¡Gracias! &lt;3\n\n---\n/);
+  });
+});
+
+describe('HtmlExporter', () => {
+  it('renders who liked, polls and the read confirmation', async () => {
+    const filePath = await new HtmlExporter().export(post, [], dir, {} as Config);
+    const html = await readFile(filePath, 'utf-8');
+
+    assert.match(html, /📊 Encuesta: ¿Quién puede acompañar la salida\?/);
+    assert.match(html, /Cerrada · Una opción · 4 votos/);
+    assert.match(html, /<div class="poll-option selected">\s*<div class="poll-option-bar" style="width: 25%">/);
+    assert.match(html, /<div class="poll-voters">Juan Pérez<\/div>/);
+    assert.match(html, /Lectura confirmada el 15 de mayo 2025, 18:00\s*· Leído por 9 de 22/);
+    assert.match(html, /❤️ Les gusta \(2\)<\/h2>\s*<div class="liked-by">Juan Pérez, Ana Gómez<\/div>/);
+  });
+
+  it('renders comment threads nested to any depth', async () => {
+    const filePath = await new HtmlExporter().export({ ...post, id: '1006', comments: thread }, [commentImage], dir, {} as Config);
+    const html = await readFile(filePath, 'utf-8');
+
+    assert.match(html, /<div class="comment-text">¿Hay que llevar <b>vianda<\/b>\?\s*<div class="comment-images">\s*<img src="\.\.\/Images\/05-15-15-00-vianda.jpg"[^>]*><img src="https:\/\/newmodel.handing.co\/uploads\/mochila.jpg"/);
+    assert.doesNotMatch(html, /steal\(\)/);
+    // Shown with the comment, not with the post images
+    assert.doesNotMatch(html, /alt="05-15-15-00-vianda.jpg"/);
+    assert.match(html, /<div class="reply-text">Sí, ver <a href="https:\/\/newmodel.handing.co\/posts\/1004">la lista<\/a>\.<\/div>/);
+    // Reply to the reply, inside its replies (text without HTML is escaped)
+    assert.match(html, /<div class="reply">(?:(?!<div class="reply">)[\s\S])*<div class="replies">\s*<div class="reply">\s*<div class="reply-author">Ana Gómez[\s\S]*?<div class="reply-text">¡Gracias! &lt;3<\/div>/);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Fake Handing Server
+ *
+ * Serves the recorded HTML in test/fixtures the way Handing does: a login form that sets a
+ * session cookie, a home page with the "Mis grupos" sidebar, paginated group timelines
+ * (?page=N, "Aún sin novedades" past the last page) and post pages. Everything but the
+ * login form redirects to it without the session cookie. Pages recorded with --record
+ * (post-<id>.html) can be served from their own directory next to the fixtures
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFile } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import { join } from 'path';
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures/', import.meta.url));
+const SESSION_COOKIE = '_handing_session=fake-session';
+
+export const FAKE_EMAIL = 'familia@example.com';
+export const FAKE_PASSWORD = 'correct horse battery staple';
+export const FAKE_GROUP_ID = '42';
+export const TIMELINE_PAGES = 3;  // timeline-page-1.html ... timeline-page-3.html
+
+export interface FakeHandingServer {
+  url: string;  // Base URL (use as site.baseUrl)
+  loginUrl: string;  // Login form (use as site.loginUrl)
+  requests: string[];  // Paths requested so far (with query string)
+  close(): Promise<void>;
+}
+
+/**
+ * Start the server on a free local port
+ * @param {Object} options - { fixturesDir: directory whose files take precedence over test/fixtures (e.g. recordings) }
+ * @returns {Promise<FakeHandingServer>}
+ */
+export async function startFakeHandingServer(options: { fixturesDir?: string } = {}): Promise<FakeHandingServer> {
+  const requests: string[] = [];
+  const fixtureDirs = [options.fixturesDir, FIXTURES_DIR].filter(Boolean);
+
+  const server = createServer((request, response) => {
+    requests.push(request.url);
+    handleRequest(request, response, name => readFixture(fixtureDirs, name)).catch(error => {
+      response.writeHead(500, { 'Content-Type': 'text/plain' });
+      response.end(error.stack);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    loginUrl: `${url}/users/sign_in`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
+
+async function handleRequest(request: IncomingMessage, response: ServerResponse, loadFixture: (name: string) => Promise<string>) {
+  const { pathname, searchParams } = new URL(request.url, 'http://localhost');
+
+  if (pathname === '/users/sign_in') {
+    if (request.method === 'POST') {
+      const form = new URLSearchParams(await readBody(request));
+      if (form.get('user[email]') === FAKE_EMAIL && form.get('user[password]') === FAKE_PASSWORD) {
+        response.writeHead(302, { 'Set-Cookie': `${SESSION_COOKIE}; Path=/; HttpOnly`, Location: '/' });
+        response.end();
+        return;
+      }
+      // Handing renders the form again with an error, staying on /users/sign_in
+      const html = await loadFixture('login.html');
+      sendHtml(response, html.replace('<!-- ERROR -->', '<div class="alert alert-danger">Email o contraseña inválidos.</div>'));
+      return;
+    }
+    sendHtml(response, await loadFixture('login.html'));
+    return;
+  }
+
+  if (!(request.headers.cookie || '').includes(SESSION_COOKIE)) {
+    response.writeHead(302, { Location: '/users/sign_in' });
+    response.end();
+    return;
+  }
+
+  if (pathname === '/') {
+    sendHtml(response, await loadFixture('home.html'));
+    return;
+  }
+
+  if (pathname === `/groups/${FAKE_GROUP_ID}/timeline`) {
+    const page = Number(searchParams.get('page') || '1');
+    sendHtml(response, await loadFixture(page >= 1 && page <= TIMELINE_PAGES ? `timeline-page-${page}.html` : 'timeline-empty.html'));
+    return;
+  }
+
+  const post = pathname.match(/^\/posts\/(\d+)$/);
+  const html = post && await loadFixture(`post-${post[1]}.html`).catch(() => null);
+  if (html) {
+    sendHtml(response, html);
+    return;
+  }
+
+  // Images, avatars and anything else the fixtures reference
+  response.writeHead(404, { 'Content-Type': 'text/plain' });
+  response.end('Not found');
+}
+
+async function readFixture(dirs: string[], name: string): Promise<string> {
+  for (const dir of dirs.slice(0, -1)) {
+    const html = await readFile(join(dir, name), 'utf-8').catch(() => null);
+    if (html !== null) return html;
+  }
+  return readFile(join(dirs[dirs.length - 1], name), 'utf-8');
+}
+
+function sendHtml(response: ServerResponse, html: string) {
+  response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  response.end(html);
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
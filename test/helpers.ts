@@ -0,0 +1,77 @@
+/**
+ * Test Helpers
+ */
+
+import { chromium, Browser } from 'playwright';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureLogging } from '../src/logger.js';
+import { Config } from '../src/types.js';
+import { FakeHandingServer, FAKE_EMAIL, FAKE_PASSWORD } from './fake-handing-server.js';
+
+// Progress messages would drown the test output
+configureLogging({ level: 'error' });
+
+/**
+ * Launch a headless browser: Playwright's Chromium, or the system Chrome the tool itself uses
+ * @returns {Promise<Browser|null>} null when neither is installed (see getBrowserSkip)
+ */
+export async function launchTestBrowser(): Promise<Browser | null> {
+  for (const options of [{}, { channel: 'chrome' }]) {
+    try {
+      return await chromium.launch({ headless: true, ...options });
+    } catch {
+      // Not installed - try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Skip option for a browser test suite: skipped without a browser, but never silently
+ * Set HANDING_REQUIRE_BROWSER_TESTS=1 (e.g. in CI) to fail instead of skipping
+ * @param {Browser|null} browser - Result of launchTestBrowser
+ * @param {string} suite - Name of the skipped tests, for the warning
+ * @returns {false|string} The node:test skip option
+ */
+export function getBrowserSkip(browser: Browser | null, suite: string): false | string {
+  if (browser) {
+    return false;
+  }
+
+  const reason = 'no browser installed (run: npx playwright install chromium)';
+  if (process.env.HANDING_REQUIRE_BROWSER_TESTS) {
+    throw new Error(`The ${suite} tests need a browser (HANDING_REQUIRE_BROWSER_TESTS is set), but ${reason}`);
+  }
+  process.stderr.write(`\n⚠ Skipping the ${suite} tests: ${reason}\n\n`);
+  return reason;
+}
+
+/**
+ * Build a configuration pointing at the fake Handing server
+ * @param {FakeHandingServer} server - Running fake server
+ * @param {string} outputDir - Archive directory
+ * @returns {Config}
+ */
+export function createTestConfig(server: FakeHandingServer, outputDir: string): Config {
+  return {
+    email: FAKE_EMAIL,
+    password: FAKE_PASSWORD,
+    outputDir,
+    mediaStrategy: { downloadImages: true, downloadVideos: true, maxRetries: 0, timeout: 5000 },
+    scraping: { headless: true, scrollDelay: 1, maxRetries: 0, userAgent: 'handing-backup-tests', reuseSession: true },
+    filesystem: { generateMonthlyIndex: true, generateTopLevelIndex: true, sanitizeFilenames: true },
+    performance: { timelinePagesPerBatch: 2 },
+    site: { baseUrl: server.url, loginUrl: server.loginUrl }
+  };
+}
+
+/**
+ * Create a temporary directory, removed by the returned cleanup function
+ * @returns {Promise<{dir: string, cleanup: Function}>}
+ */
+export async function createTempDir(): Promise<{ dir: string; cleanup: () => Promise<void> }> {
+  const dir = await mkdtemp(join(tmpdir(), 'handing-backup-test-'));
+  return { dir, cleanup: () => rm(dir, { recursive: true, force: true }) };
+}
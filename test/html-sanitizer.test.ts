@@ -0,0 +1,38 @@
+/**
+ * HTML sanitizer tests: comment HTML written into the exported pages (no browser needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeHtml } from '../src/html-sanitizer.js';
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting, http(s) and relative links and images', () => {
+    assert.equal(
+      sanitizeHtml('Ver <b>el</b> <a href="https://photos.app.goo.gl/AbC?a=1&amp;b=2" target="_blank">álbum</a>, <a href="/posts/1004">la lista</a><br><img src="/uploads/1.jpg" alt="Foto">'),
+      'Ver <b>el</b> <a href="https://photos.app.goo.gl/AbC?a=1&amp;b=2">álbum</a>, <a href="/posts/1004">la lista</a><br><img src="/uploads/1.jpg" alt="Foto">'
+    );
+  });
+
+  it('drops scripts, event handlers and unknown tags', () => {
+    assert.equal(sanitizeHtml('Hola <b onclick="steal()">alta</b><script>steal()</script>!'), 'Hola <b>alta</b>!');
+    assert.equal(sanitizeHtml('<img/src="x.jpg"/onerror=steal()>'), '<img src="x.jpg">');
+    assert.equal(sanitizeHtml('<meta http-equiv=refresh content="0;url=javascript:steal()">Hola'), 'Hola');
+    assert.equal(sanitizeHtml('<svg><script>steal()</script></svg><iframe src="https://x"></iframe>ok'), 'ok');
+    assert.equal(sanitizeHtml('<!--<script>steal()</script>-->a < b'), 'a &lt; b');
+  });
+
+  it('drops javascript: and other scheme URLs, also entity-encoded', () => {
+    for (const href of [
+      "javascript:alert('1 2')",
+      'jav&#x61;script:steal()',
+      'jav&#97;script&colon;steal()',
+      ' jav&#x09;ascript:steal()',
+      'JAVASCRIPT:steal()',
+      'data:text/html,<script>steal()</script>',
+      'jav&unknown;ascript:steal()'
+    ]) {
+      assert.equal(sanitizeHtml(`<a href="${href}">x</a>`), '<a>x</a>', href);
+    }
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Manifest tests: change detection across failed re-extractions and backups of corrupted manifests (no browser needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { updatePost, detectPostChanges, backfillPostFingerprint, getPostFingerprint } from '../src/manifest.js';
+import { JsonManifestStore } from '../src/manifest-stores/JsonManifestStore.js';
+import { createTempDir } from './helpers.js';
+
+describe('updatePost', () => {
+  it('keeps the fingerprint and files of a post through a failed run', () => {
+    const manifest = { metadata: { total_posts: 0 }, posts: {}, avatars: {} };
+    const timelinePost = { id: '1010', title: 'Día de la familia', content: 'Los esperamos', images: [], commentsCount: 2, likes: 4 };
+    const markdownPath = '/archive/2025/Sala Azul/05-Mayo/Messages/15-14-20-Día de la familia.md';
+
+    // Rendered
+    updatePost(manifest, '1010', {
+      title: timelinePost.title,
+      author: 'María López',
+      markdown_path: markdownPath,
+      output_paths: [markdownPath],
+      status: 'complete',
+      ...getPostFingerprint(timelinePost)
+    });
+
+    // Re-extraction failed
+    updatePost(manifest, '1010', { title: timelinePost.title, status: 'failed', error: 'Timeout' });
+    assert.equal(manifest.posts['1010'].status, 'failed');
+    assert.deepEqual(manifest.posts['1010'].output_paths, [markdownPath]);
+
+    // Edited by the teacher: still detected, nothing to backfill
+    const edited = { ...timelinePost, content: 'Los esperamos a las 10' };
+    assert.deepEqual(detectPostChanges(manifest, edited), ['content']);
+    assert.equal(backfillPostFingerprint(manifest, edited), false);
+
+    // Rendered again
+    updatePost(manifest, '1010', { title: edited.title, status: 'complete', ...getPostFingerprint(edited) });
+    assert.deepEqual(detectPostChanges(manifest, edited), []);
+    assert.equal(manifest.posts['1010'].error, undefined);
+    assert.equal(manifest.posts['1010'].author, 'María López');
+  });
+});
+
+describe('JsonManifestStore', () => {
+  it('moves a corrupted manifest aside instead of rotating it into the backups', async () => {
+    const { dir, cleanup } = await createTempDir();
+    try {
+      const store = new JsonManifestStore(dir);
+      const manifestPath = store.getManifestPath('Sala Azul');
+      const backup = (totalPosts: number) => JSON.stringify({ metadata: { group_name: 'Sala Azul', total_posts: totalPosts, version: '2' }, posts: {}, avatars: {} });
+      for (let i = 1; i <= 3; i++) {
+        await writeFile(`${manifestPath}.bak.${i}`, backup(4 - i));
+      }
+      await writeFile(manifestPath, '{"metadata": {"group_na');
+
+      const manifest = await store.load('Sala Azul');
+      assert.equal(manifest.metadata.total_posts, 3);
+      await store.save('Sala Azul', manifest);
+
+      assert.equal(await readFile(`${manifestPath}.corrupt`, 'utf-8'), '{"metadata": {"group_na');
+      for (let i = 1; i <= 3; i++) {
+        assert.equal(await readFile(`${manifestPath}.bak.${i}`, 'utf-8'), backup(4 - i));
+      }
+      assert.equal(JSON.parse(await readFile(manifestPath, 'utf-8')).metadata.total_posts, 3);
+    } finally {
+      await cleanup();
+    }
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Post processor tests: what a post page that fails to load does to the archive (no browser needed)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { PostProcessor } from '../src/post-processor.js';
+import { DownloaderFactory } from '../src/downloaders/index.js';
+import { MarkdownExporter } from '../src/exporters/index.js';
+import { configureManifestStore, loadManifest, updatePost } from '../src/manifest.js';
+import { Config, Post } from '../src/types.js';
+import { createTempDir } from './helpers.js';
+
+let dir: string;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  ({ dir, cleanup } = await createTempDir());
+});
+
+after(async () => {
+  await cleanup();
+});
+
+// A page whose every navigation fails, like a post page that times out
+const brokenPage = {
+  goto: async () => {
+    throw new Error('net::ERR_CONNECTION_RESET');
+  }
+};
+
+describe('PostProcessor', () => {
+  it('keeps the last good render when the post page fails to load', async () => {
+    const config = { outputDir: dir } as Config;
+    configureManifestStore(config);
+    const manifest = await loadManifest('Sala Azul');
+
+    const markdownPath = join(dir, 'good.md');
+    await writeFile(markdownPath, '# Día de la familia\n\nLos esperamos');
+    updatePost(manifest, '1010', { title: 'Día de la familia', status: 'partial', markdown_path: markdownPath, output_paths: [markdownPath] });
+
+    // Retried posts are built from the manifest: no content, no images
+    const skeleton: Post = {
+      id: '1010',
+      url: 'https://newmodel.handing.co/posts/1010',
+      title: 'Día de la familia',
+      author: 'Unknown',
+      timestamp: '15 de mayo 2025, 14:20',
+      groupName: 'Sala Azul',
+      content: '',
+      images: [],
+      comments: [],
+      likes: 0
+    };
+
+    const processor = new PostProcessor({
+      config,
+      groupName: 'Sala Azul',
+      manifest,
+      downloaderFactory: new DownloaderFactory(),
+      exporters: [new MarkdownExporter()]
+    });
+    const result = await processor.process(skeleton, { page: brokenPage, onlyMissingAssets: true });
+
+    assert.equal(result.status, 'failed');
+    assert.deepEqual(result.outputPaths, []);
+    assert.equal(await readFile(markdownPath, 'utf-8'), '# Día de la familia\n\nLos esperamos');
+    assert.equal(manifest.posts['1010'].status, 'failed');
+    assert.deepEqual(manifest.posts['1010'].output_paths, [markdownPath]);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Rate limiter tests: which service a request URL is limited as (no browser needed)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureRateLimits, getServiceForUrl } from '../src/rate-limiter.js';
+import { getPerformanceSettings } from '../src/config.js';
+import { Config } from '../src/types.js';
+
+describe('getServiceForUrl', () => {
+  it('limits the configured site as Handing', () => {
+    const site = { baseUrl: 'https://escuela.example.org', loginUrl: 'https://login.example.org/users/sign_in' };
+    configureRateLimits(getPerformanceSettings({} as Config), site);
+
+    assert.equal(getServiceForUrl('https://escuela.example.org/posts/1010'), 'handing');
+    assert.equal(getServiceForUrl('https://login.example.org/users/sign_in'), 'handing');
+    assert.equal(getServiceForUrl('https://web.handing.co/uploads/1010.jpg'), 'handing');
+    assert.equal(getServiceForUrl('https://lh3.googleusercontent.com/abc=d'), 'google');
+    assert.equal(getServiceForUrl('https://example.org/escuela'), null);
+  });
+});
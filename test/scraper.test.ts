@@ -0,0 +1,459 @@
+/**
+ * Scraper tests against the fake Handing server
+ * Skipped when no browser is installed (npx playwright install chromium)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { access, readFile } from 'fs/promises';
+import { join } from 'path';
+import { Browser, BrowserContext, Page } from 'playwright';
+import {
+  authenticate,
+  ensureAuthenticated,
+  getGroups,
+  getSessionPath,
+  navigateToGroup,
+  extractPostsFromTimeline,
+  extractAllPosts,
+  extractFullPostDetails,
+  extractComments,
+  buildCommentThreads
+} from '../src/scraper.js';
+import { getDebugFilePath, getRecordingsDir } from '../src/state-dir.js';
+import { configureRecorder } from '../src/recorder.js';
+import { Config } from '../src/types.js';
+import { startFakeHandingServer, FakeHandingServer, FAKE_EMAIL, FAKE_PASSWORD, FAKE_GROUP_ID } from './fake-handing-server.js';
+import { launchTestBrowser, getBrowserSkip, createTestConfig, createTempDir } from './helpers.js';
+
+const browser: Browser | null = await launchTestBrowser();
+const skip = getBrowserSkip(browser, 'scraper');
+
+let server: FakeHandingServer;
+let config: Config;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  server = await startFakeHandingServer();
+  const temp = await createTempDir();
+  cleanup = temp.cleanup;
+  config = createTestConfig(server, temp.dir);
+});
+
+after(async () => {
+  await browser?.close();
+  await server.close();
+  await cleanup();
+});
+
+/**
+ * Open a page in a fresh browser context, logged in unless told otherwise
+ */
+async function openPage(loggedIn = true): Promise<{ context: BrowserContext; page: Page }> {
+  const context = await browser.newContext();
+  const page = await context.newPage();
+  if (loggedIn) {
+    await authenticate(page, FAKE_EMAIL, FAKE_PASSWORD, config.outputDir, server.loginUrl);
+  }
+  return { context, page };
+}
+
+function timelineUrl(): string {
+  return `${server.url}/groups/${FAKE_GROUP_ID}/timeline`;
+}
+
+function requestsSince(index: number): string[] {
+  return server.requests.slice(index);
+}
+
+describe('login', { skip }, () => {
+  it('logs in through the login form', async () => {
+    const { context, page } = await openPage(false);
+    try {
+      assert.equal(await authenticate(page, FAKE_EMAIL, FAKE_PASSWORD, config.outputDir, server.loginUrl), true);
+      assert.equal(page.url(), `${server.url}/`);
+    } finally {
+      await context.close();
+    }
+  });
+
+  it('fails on wrong credentials and keeps a screenshot', async () => {
+    const { context, page } = await openPage(false);
+    try {
+      await assert.rejects(
+        authenticate(page, FAKE_EMAIL, 'wrong password', config.outputDir, server.loginUrl),
+        /Authentication failed: Still on login page/
+      );
+      await access(await getDebugFilePath(config.outputDir, 'login-error.png'));
+    } finally {
+      await context.close();
+    }
+  });
+
+  it('reuses the saved session on the next run', async () => {
+    const first = await openPage(false);
+    try {
+      assert.equal(await ensureAuthenticated(first.page, first.context, config), 'login');
+    } finally {
+      await first.context.close();
+    }
+
+    const context = await browser.newContext({ storageState: getSessionPath(config) });
+    try {
+      const start = server.requests.length;
+      assert.equal(await ensureAuthenticated(await context.newPage(), context, config, { sessionRestored: true }), 'session');
+      assert.ok(!requestsSince(start).some(path => path.startsWith('/users/sign_in')));
+    } finally {
+      await context.close();
+    }
+  });
+
+  it('redirects to the login form without a session', async () => {
+    const { context, page } = await openPage(false);
+    try {
+      await page.goto(timelineUrl());
+      assert.equal(page.url(), server.loginUrl);
+    } finally {
+      await context.close();
+    }
+  });
+});
+
+describe('groups', { skip }, () => {
+  it('discovers groups from the sidebar, archived ones included', async () => {
+    const { context, page } = await openPage();
+    try {
+      const groups = await getGroups(page, server.url);
+      assert.deepEqual(groups, [
+        { name: 'Sala Azul', url: `${server.url}/groups/42/timeline`, archived: false },
+        { name: 'Sala Verde', url: `${server.url}/groups/43/timeline`, archived: false },
+        { name: 'Sala Roja 20222023', url: `${server.url}/groups/17/timeline`, archived: true }
+      ]);
+    } finally {
+      await context.close();
+    }
+  });
+});
+
+describe('timeline', { skip }, () => {
+  let context: BrowserContext;
+  let page: Page;
+
+  before(async () => {
+    ({ context, page } = await openPage());
+  });
+
+  after(async () => {
+    await context.close();
+  });
+
+  it('extracts the posts of a timeline page', async () => {
+    await navigateToGroup(page, { name: 'Sala Azul', url: timelineUrl() });
+    const posts = await extractPostsFromTimeline(page, config);
+
+    assert.deepEqual(posts.map(post => post.id), ['1010', '1009', '1008']);
+    assert.deepEqual(posts[0], {
+      id: '1010',
+      title: 'Acto del 25 de Mayo',
+      url: `${server.url}/posts/1010`,
+      author: 'Unknown',
+      timestamp: '27 de mayo 2025, 10:30',
+      content: 'Les compartimos las fotos del acto patrio...',
+      likes: 4,
+      commentsCount: 2,
+      images: ['/uploads/1010-1.jpg', '/uploads/1010-2.jpg'],
+      extractedFrom: 'timeline'
+    });
+    assert.deepEqual(posts[1].images, []);
+  });
+
+  it('follows pagination until the pages are empty', async () => {
+    await navigateToGroup(page, { name: 'Sala Azul', url: timelineUrl() });
+    const start = server.requests.length;
+    const posts = await extractAllPosts(page, context, config, timelineUrl());
+
+    assert.deepEqual(posts.map(post => post.id), ['1010', '1009', '1008', '1007', '1006', '1005', '1004', '1003']);
+    // Pages come in batches of 2: pages 4 and 5 are empty ("Aún sin novedades"), so no page 6
+    const pages = requestsSince(start).filter(path => path.includes('/timeline?page='));
+    assert.deepEqual(pages.sort(), ['2', '3', '4', '5'].map(n => `/groups/${FAKE_GROUP_ID}/timeline?page=${n}`));
+  });
+
+  it('stops when most pages of a batch are empty', async () => {
+    await navigateToGroup(page, { name: 'Sala Azul', url: timelineUrl() });
+    const posts = await extractAllPosts(page, context, { ...config, performance: { timelinePagesPerBatch: 5 } }, timelineUrl());
+
+    // Pages 2-6: 4, 5 and 6 are empty
+    assert.equal(posts.length, 8);
+    assert.ok(!server.requests.includes(`/groups/${FAKE_GROUP_ID}/timeline?page=7`));
+  });
+
+  it('stops at a page of known posts (incremental scan)', async () => {
+    await navigateToGroup(page, { name: 'Sala Azul', url: timelineUrl() });
+    const start = server.requests.length;
+    const posts = await extractAllPosts(page, context, config, timelineUrl(), { isKnownPost: () => true });
+
+    assert.equal(posts.length, 3);
+    assert.ok(!requestsSince(start).some(path => path.includes('?page=')));
+  });
+
+  it('scans every page with fullScan, even if the posts are known', async () => {
+    await navigateToGroup(page, { name: 'Sala Azul', url: timelineUrl() });
+    const posts = await extractAllPosts(page, context, config, timelineUrl(), { isKnownPost: () => true, fullScan: true });
+
+    assert.equal(posts.length, 8);
+  });
+});
+
+describe('post page', { skip }, () => {
+  let context: BrowserContext;
+  let page: Page;
+
+  before(async () => {
+    ({ context, page } = await openPage());
+  });
+
+  after(async () => {
+    await context.close();
+  });
+
+  function timelinePost(id: string) {
+    return {
+      id,
+      title: 'Timeline title',
+      url: `${server.url}/posts/${id}`,
+      author: 'Unknown',
+      timestamp: '27 de mayo 2025, 10:30',
+      content: 'Truncated...',
+      likes: 0,
+      commentsCount: 0,
+      images: ['/uploads/timeline.jpg'],
+      extractedFrom: 'timeline'
+    };
+  }
+
+  it('extracts the full post: author, content, media and links', async () => {
+    const post = await extractFullPostDetails(page, timelinePost('1010'), config);
+
+    assert.equal(post.extractedFrom, 'full');
+    assert.equal(post.author, 'María López');
+    assert.equal(post.authorAvatar, '/avatars/maria-lopez.jpg');
+    assert.equal(post.authorRole, 'Maestra de Sala Azul');
+    assert.match(post.content, /<strong>acto patrio<\/strong>/);
+    // Carousel originals (the cloned slide is not repeated), then the video
+    assert.deepEqual(post.images, ['/uploads/1010-1-original.jpg', '/uploads/1010-2-original.jpg', '/uploads/1010-video.mp4']);
+    // Links to other posts on the site are not external links
+    assert.deepEqual(post.externalLinks, [
+      { url: 'https://drive.google.com/file/d/1xYz/view', name: 'Autorización salida.pdf', source: 'attachment' },
+      { url: 'https://photos.app.goo.gl/AbCdEf123', name: 'este álbum', source: 'content' }
+    ]);
+    assert.equal(post.comments.length, 2);
+    assert.equal(post.commentsCount, 2);
+    // Interactions are off by default
+    assert.equal(post.likedBy, undefined);
+    assert.equal(post.polls, undefined);
+  });
+
+  it('extracts comment threads to any depth, loading more replies first', async () => {
+    await page.goto(`${server.url}/posts/1010`);
+    const comments = await extractComments(page);
+
+    assert.deepEqual(comments, [
+      {
+        author: 'Juan Pérez',
+        authorAvatar: '/avatars/juan-perez.jpg',
+        authorRole: 'Papá de Tomás Pérez (Sala Azul)',
+        timestamp: '27 de mayo 2025, 11:02',
+        text: '¡Hermoso acto! Gracias seño.',
+        html: '¡Hermoso acto! Gracias seño.',
+        links: [],
+        images: [],
+        likes: 2,
+        replies: [
+          {
+            author: 'María López',
+            authorAvatar: '/avatars/maria-lopez.jpg',
+            authorRole: 'Maestra de Sala Azul',
+            timestamp: '27 de mayo 2025, 11:15',
+            text: '¡Gracias a ustedes por acompañar!',
+            html: '¡Gracias a ustedes por acompañar!',
+            links: [],
+            images: [],
+            likes: 1,
+            replies: [
+              {
+                author: 'Juan Pérez',
+                authorAvatar: '/avatars/juan-perez.jpg',
+                authorRole: 'Papá de Tomás Pérez (Sala Azul)',
+                timestamp: '27 de mayo 2025, 11:20',
+                text: '¡Cuando quieran! 🙌',
+                html: '¡Cuando quieran! 🙌',
+                links: [],
+                images: [],
+                likes: 0,
+                replies: []
+              }
+            ]
+          }
+        ]
+      },
+      {
+        author: 'Ana Gómez',
+        authorAvatar: '/avatars/ana-gomez.jpg',
+        authorRole: 'Mamá de Sofía Gómez (Sala Azul)',
+        timestamp: '27 de mayo 2025, 12:40',
+        text: '¿Se pueden descargar las fotos en alta?',
+        html: '¿Se pueden descargar las fotos en <b>alta</b>?',
+        links: [],
+        images: [`${server.url}/uploads/comment-2001.jpg`],
+        likes: 0,
+        replies: [
+          {
+            // Loaded by "Ver más respuestas"
+            author: 'María López',
+            authorAvatar: '/avatars/maria-lopez.jpg',
+            authorRole: 'Maestra de Sala Azul',
+            timestamp: '27 de mayo 2025, 13:05',
+            text: 'Sí, están en el álbum.',
+            html: 'Sí, están en <a href="https://photos.app.goo.gl/AbCdEf123">el álbum</a>.',
+            links: [{ url: 'https://photos.app.goo.gl/AbCdEf123', name: 'el álbum' }],
+            images: [],
+            likes: 1,
+            replies: []
+          }
+        ]
+      }
+    ]);
+  });
+
+  it('extracts a single image and no comments', async () => {
+    const post = await extractFullPostDetails(page, timelinePost('1009'), config);
+
+    assert.equal(post.author, 'Dirección');
+    assert.deepEqual(post.images, ['/uploads/1009-flyer-original.jpg']);
+    assert.deepEqual(post.externalLinks, []);
+    assert.deepEqual(post.comments, []);
+  });
+
+  // The likes list, poll and read confirmation markup of the fixtures is hand-written, not recorded:
+  // these tests check the extraction logic, not that the selectors match Handing
+  function withInteractions(): Config {
+    return { ...config, scraping: { ...config.scraping, extractInteractions: true } };
+  }
+
+  it('reads who liked from the likes list in the page', async () => {
+    const post = await extractFullPostDetails(page, timelinePost('1010'), withInteractions());
+
+    assert.deepEqual(post.likedBy, ['Juan Pérez', 'Ana Gómez', 'Carla Ruiz', 'Pedro Díaz']);
+  });
+
+  it('opens the likes list and reads a confirmed read confirmation', async () => {
+    const post = await extractFullPostDetails(page, timelinePost('1009'), withInteractions());
+
+    assert.deepEqual(post.likedBy, ['Ana Gómez']);
+    assert.equal(post.readConfirmation.confirmed, true);
+    assert.equal(post.readConfirmation.confirmedAt, '26 de mayo 2025, 19:10');
+  });
+
+  it('extracts polls with their tallies and a pending read confirmation', async () => {
+    const post = await extractFullPostDetails(page, timelinePost('1005'), withInteractions());
+
+    assert.deepEqual(post.polls, [
+      {
+        question: '¿Quién puede acompañar la salida del viernes?',
+        options: [
+          { text: 'Puedo acompañar', votes: 2, voters: ['Juan Pérez', 'Ana Gómez'], selected: true },
+          { text: 'No puedo', votes: 5, voters: [], selected: false }
+        ],
+        multipleChoice: false,
+        closed: false,
+        totalVotes: 7
+      },
+      {
+        question: '¿Qué días prefieren para la reunión?',
+        options: [
+          { text: 'Martes', votes: 4, voters: [], selected: false },
+          { text: 'Jueves | tarde', votes: 6, voters: [], selected: false }
+        ],
+        multipleChoice: true,
+        closed: true,
+        totalVotes: 10
+      }
+    ]);
+    assert.equal(post.readConfirmation.confirmed, false);
+    assert.equal(post.readConfirmation.readCount, 9);
+    assert.equal(post.readConfirmation.recipientsCount, 22);
+    assert.deepEqual(post.likedBy, []);
+  });
+});
+
+describe('comment threads', () => {
+  it('nests replies under the comment they answer, at any depth (no browser needed)', () => {
+    const comment = (text: string, parent: number) => ({ author: 'María López', timestamp: 'hace 2 horas', text, likes: 0, parent });
+
+    const threads = buildCommentThreads([
+      comment('¿A qué hora?', -1),
+      comment('A las 10', 0),
+      comment('Gracias', 1),
+      comment('Nos vemos', -1),
+      comment('También a las 10 los de Sala Verde?', 0)
+    ]);
+
+    assert.deepEqual(threads.map(c => c.text), ['¿A qué hora?', 'Nos vemos']);
+    assert.deepEqual(threads[0].replies.map(c => c.text), ['A las 10', 'También a las 10 los de Sala Verde?']);
+    assert.deepEqual(threads[0].replies[0].replies.map(c => c.text), ['Gracias']);
+    assert.deepEqual(threads[1].replies, []);
+    assert.equal('parent' in threads[0], false);
+  });
+});
+
+describe('record mode', { skip }, () => {
+  let recordingsDir: string;
+
+  before(() => {
+    recordingsDir = getRecordingsDir(config.outputDir);
+    configureRecorder(recordingsDir);
+  });
+
+  after(() => {
+    configureRecorder(null);
+  });
+
+  it('saves the DOM, a screenshot and a HAR without cookies for each post page', async () => {
+    const { context, page } = await openPage();
+    try {
+      await extractFullPostDetails(page, { id: '1010', url: `${server.url}/posts/1010`, images: [] }, config);
+    } finally {
+      await context.close();
+    }
+
+    const html = await readFile(join(recordingsDir, 'post-1010.html'), 'utf-8');
+    assert.match(html, /class="sanitized-post-content"/);
+    assert.doesNotMatch(html, /<script|fake-csrf-token/);
+    await access(join(recordingsDir, 'post-1010.png'));
+
+    const har = JSON.parse(await readFile(join(recordingsDir, 'post-1010.har'), 'utf-8'));
+    const document = har.log.entries.find(entry => entry.request.url === `${server.url}/posts/1010`);
+    assert.equal(document.response.status, 200);
+    assert.match(document.response.content.text, /sanitized-post-content/);
+    const headers = har.log.entries.flatMap(entry => [...entry.request.headers, ...entry.response.headers]);
+    assert.ok(!headers.some(header => /^(cookie|set-cookie)$/i.test(header.name)));
+  });
+
+  it('records pages that work as fixtures', async () => {
+    const replay = await startFakeHandingServer({ fixturesDir: recordingsDir });
+    const { context, page } = await openPage();
+    try {
+      const original = await extractFullPostDetails(page, { id: '1010', url: `${server.url}/posts/1010`, images: [] }, config);
+      await authenticate(page, FAKE_EMAIL, FAKE_PASSWORD, config.outputDir, replay.loginUrl);
+      const replayConfig = { ...config, site: { baseUrl: replay.url, loginUrl: replay.loginUrl } };
+      const replayed = await extractFullPostDetails(page, { id: '1010', url: `${replay.url}/posts/1010`, images: [] }, replayConfig);
+
+      for (const field of ['author', 'authorRole', 'images', 'comments']) {
+        assert.deepEqual(replayed[field], original[field], field);
+      }
+    } finally {
+      await context.close();
+      await replay.close();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Selector profile tests: loading profile files (no browser needed), fallback chains and
+ * the selector health check against the fake Handing server (skipped without a browser)
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Browser, BrowserContext, Page } from 'playwright';
+import { authenticate, extractFullPostDetails } from '../src/scraper.js';
+import {
+  configureSelectorProfile,
+  getSelectorHealth,
+  loadSelectorProfile,
+  DEFAULT_SELECTOR_PROFILE
+} from '../src/selectors.js';
+import { Config } from '../src/types.js';
+import { startFakeHandingServer, FakeHandingServer, FAKE_EMAIL, FAKE_PASSWORD } from './fake-handing-server.js';
+import { launchTestBrowser, getBrowserSkip, createTestConfig, createTempDir } from './helpers.js';
+
+const browser: Browser | null = await launchTestBrowser();
+const skip = getBrowserSkip(browser, 'selector health');
+
+let dir: string;
+let cleanup: () => Promise<void>;
+
+before(async () => {
+  ({ dir, cleanup } = await createTempDir());
+});
+
+after(async () => {
+  await browser?.close();
+  await cleanup();
+});
+
+async function writeProfile(profile: object): Promise<string> {
+  const profilePath = join(dir, 'selectors.json');
+  await writeFile(profilePath, JSON.stringify(profile));
+  return profilePath;
+}
+
+describe('loadSelectorProfile', () => {
+  it('overrides chains of the built-in profile', async () => {
+    const profile = await loadSelectorProfile(await writeProfile({
+      name: 'handing-redesign',
+      version: '2026.1',
+      selectors: { postAuthorName: ['a.author-name', 'a.user-name b'], video: 'video.post-video' }
+    }));
+
+    assert.equal(profile.name, 'handing-redesign');
+    assert.equal(profile.version, '2026.1');
+    assert.deepEqual(profile.selectors.postAuthorName, ['a.author-name', 'a.user-name b']);
+    assert.deepEqual(profile.selectors.video, ['video.post-video']);
+    assert.deepEqual(profile.selectors.postContent, DEFAULT_SELECTOR_PROFILE.selectors.postContent);
+  });
+
+  it('lists every problem with its path', async () => {
+    await assert.rejects(
+      loadSelectorProfile(await writeProfile({ name: 'broken', selectors: { postAutorName: 'a', video: [] } })),
+      (error: Error) => {
+        assert.match(error.message, /"version" is required/);
+        assert.match(error.message, /Unknown field "selectors.postAutorName" \(did you mean "postAuthorName"\?\)/);
+        assert.match(error.message, /"selectors.video"/);
+        return true;
+      }
+    );
+  });
+});
+
+describe('selector health', { skip }, () => {
+  let server: FakeHandingServer;
+  let config: Config;
+  let context: BrowserContext;
+  let page: Page;
+
+  before(async () => {
+    server = await startFakeHandingServer();
+    config = createTestConfig(server, dir);
+    context = await browser.newContext();
+    page = await context.newPage();
+    await authenticate(page, FAKE_EMAIL, FAKE_PASSWORD, config.outputDir, server.loginUrl);
+  });
+
+  after(async () => {
+    await context.close();
+    await server.close();
+  });
+
+  afterEach(() => {
+    configureSelectorProfile(DEFAULT_SELECTOR_PROFILE);
+  });
+
+  function post(id: string) {
+    return { id, url: `${server.url}/posts/${id}`, images: [] };
+  }
+
+  it('falls back to the next selector of a chain', async () => {
+    configureSelectorProfile(await loadSelectorProfile(await writeProfile({
+      name: 'fallback',
+      version: '1',
+      selectors: { postAuthorName: ['a.author-name', 'a.user-name b'] }
+    })));
+
+    const extracted = await extractFullPostDetails(page, post('1010'), config);
+    assert.equal(extracted.author, 'María López');
+    assert.equal(getSelectorHealth().pages.post.missing.postAuthorName, undefined);
+  });
+
+  it('reports expected elements missing on a page', async () => {
+    configureSelectorProfile(await loadSelectorProfile(await writeProfile({
+      name: 'redesign',
+      version: '2',
+      selectors: { postAuthorAvatar: 'img.avatar-v2' }
+    })));
+
+    const extracted = await extractFullPostDetails(page, post('1009'), config);
+    const health = getSelectorHealth();
+
+    assert.equal(extracted.authorAvatar, undefined);
+    assert.equal(health.profile, 'redesign@2');
+    assert.ok(health.pages.post.missing.postAuthorAvatar.examples.includes(`${server.url}/posts/1009`));
+  });
+
+  it('reports a liked post whose likes list is not found', async () => {
+    configureSelectorProfile(await loadSelectorProfile(await writeProfile({
+      name: 'likes-redesign',
+      version: '3',
+      selectors: { likerName: '.likers .name', likesListToggle: 'a.likers-toggle' }
+    })));
+
+    const interactions = { ...config, scraping: { ...config.scraping, extractInteractions: true } };
+    const extracted = await extractFullPostDetails(page, post('1009'), interactions);
+
+    assert.deepEqual(extracted.likedBy, []);
+    assert.ok(getSelectorHealth().pages.post.missing.likesListToggle.examples.includes(`${server.url}/posts/1009`));
+  });
+});